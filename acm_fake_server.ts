@@ -0,0 +1,498 @@
+/*
+ Author: Donthedev <https://github.com/voxeldon>
+**************************************************
+ Copyright (c) Voxel Media Co - Voxel Lab Studios
+**************************************************
+*/
+import type { AcmHost, AcmScoreboard, AcmScoreboardIdentity, AcmScoreboardObjective, AcmScoreboardParticipant, AcmScriptEvent, AcmSystem, AcmWorld, AddonData, SettingsWidget } from "./acm_lib";
+
+/*
+ An in-memory stand-in for the parts of `@minecraft/server` used by acm_lib.
+ Pass `createFakeHost()` to `AcmLibrary.create`, or alias `@minecraft/server` to this module,
+ to run the library from plain Node without a Bedrock world.
+*/
+
+/**
+ * Represents an in-memory scoreboard participant.
+ */
+export class FakeScoreboardIdentity implements AcmScoreboardIdentity {
+    private constructor(public readonly id: number, public readonly displayName: string) { }
+
+    /**
+     * Creates a new instance of `FakeScoreboardIdentity`.
+     * @param id The unique numeric identifier of the participant.
+     * @param displayName The display name of the participant.
+     * @returns A new `FakeScoreboardIdentity` instance.
+     */
+    static create(id: number, displayName: string): FakeScoreboardIdentity {
+        return new FakeScoreboardIdentity(id, displayName);
+    }
+}
+
+/**
+ * Represents an in-memory scoreboard objective.
+ */
+export class FakeScoreboardObjective implements AcmScoreboardObjective {
+    private readonly scores: Map<string, { identity: FakeScoreboardIdentity, score: number }> = new Map();
+    private valid: boolean = true;
+
+    private constructor(private readonly scoreboard: FakeScoreboard, public readonly id: string, public readonly displayName: string) { }
+
+    private nameOf(participant: AcmScoreboardParticipant): string {
+        if (typeof participant === 'string') return participant;
+        return 'displayName' in participant ? participant.displayName : participant.id;
+    }
+
+    private assertValid(): void {
+        if (!this.valid) throw new Error(`Objective ${this.id} has been removed`);
+    }
+
+    /**
+     * Marks the objective as removed; any further access throws, as it does in game.
+     */
+    public invalidate(): void {
+        this.valid = false;
+    }
+
+    public isValid(): boolean {
+        return this.valid;
+    }
+
+    public getParticipants(): FakeScoreboardIdentity[] {
+        this.assertValid();
+        return [...this.scores.values()].map(entry => entry.identity);
+    }
+
+    public getScore(participant: AcmScoreboardParticipant): number | undefined {
+        this.assertValid();
+        return this.scores.get(this.nameOf(participant))?.score;
+    }
+
+    public hasParticipant(participant: AcmScoreboardParticipant): boolean {
+        this.assertValid();
+        return this.scores.has(this.nameOf(participant));
+    }
+
+    public removeParticipant(participant: AcmScoreboardParticipant): boolean {
+        this.assertValid();
+        return this.scores.delete(this.nameOf(participant));
+    }
+
+    public setScore(participant: AcmScoreboardParticipant, score: number): void {
+        this.assertValid();
+        const name: string = this.nameOf(participant);
+        if (name.length > this.scoreboard.maxParticipantNameLength) throw new Error(`Participant name exceeds ${this.scoreboard.maxParticipantNameLength} characters`);
+        const entry = this.scores.get(name);
+        if (entry) entry.score = score;
+        else this.scores.set(name, { identity: this.scoreboard.identityOf(name), score });
+    }
+
+    /**
+     * Creates a new instance of `FakeScoreboardObjective`.
+     * @param scoreboard The scoreboard owning the objective.
+     * @param id The identifier of the objective.
+     * @param displayName The display name of the objective (default: the identifier).
+     * @returns A new `FakeScoreboardObjective` instance.
+     */
+    static create(scoreboard: FakeScoreboard, id: string, displayName: string = id): FakeScoreboardObjective {
+        return new FakeScoreboardObjective(scoreboard, id, displayName);
+    }
+}
+
+/**
+ * Represents an in-memory world scoreboard.
+ */
+export class FakeScoreboard implements AcmScoreboard {
+    /** The longest participant name `setScore` accepts. */
+    public maxParticipantNameLength: number = 32767;
+    private readonly objectives: Map<string, FakeScoreboardObjective> = new Map();
+    private readonly identities: Map<string, FakeScoreboardIdentity> = new Map();
+
+    private constructor() { }
+
+    /**
+     * Gets the participant identity for a name, creating it on first use.
+     * Identities are shared across objectives, as they are in game.
+     * @param name The display name of the participant.
+     * @returns The participant identity.
+     */
+    public identityOf(name: string): FakeScoreboardIdentity {
+        let identity: FakeScoreboardIdentity | undefined = this.identities.get(name);
+        if (!identity) {
+            identity = FakeScoreboardIdentity.create(this.identities.size + 1, name);
+            this.identities.set(name, identity);
+        }
+        return identity;
+    }
+
+    public addObjective(objectiveId: string, displayName?: string): FakeScoreboardObjective {
+        if (this.objectives.has(objectiveId)) throw new Error(`Objective ${objectiveId} already exists`);
+        const objective: FakeScoreboardObjective = FakeScoreboardObjective.create(this, objectiveId, displayName);
+        this.objectives.set(objectiveId, objective);
+        return objective;
+    }
+
+    public getObjective(objectiveId: string): FakeScoreboardObjective | undefined {
+        return this.objectives.get(objectiveId);
+    }
+
+    public getObjectives(): FakeScoreboardObjective[] {
+        return [...this.objectives.values()];
+    }
+
+    public removeObjective(objectiveId: AcmScoreboardObjective | string): boolean {
+        const id: string = typeof objectiveId === 'string' ? objectiveId : objectiveId.id;
+        const objective: FakeScoreboardObjective | undefined = this.objectives.get(id);
+        if (!objective) return false;
+        objective.invalidate();
+        return this.objectives.delete(id);
+    }
+
+    /**
+     * Creates a new instance of `FakeScoreboard`.
+     * @returns A new, empty `FakeScoreboard` instance.
+     */
+    static create(): FakeScoreboard {
+        return new FakeScoreboard();
+    }
+}
+
+/**
+ * Represents an in-memory player.
+ */
+export class FakePlayer {
+    /** The entity type of the player. */
+    public readonly typeId: string = 'minecraft:player';
+    private readonly tags: Set<string> = new Set();
+
+    private constructor(public readonly id: string, public readonly name: string) { }
+
+    public addTag(tag: string): boolean {
+        if (this.tags.has(tag)) return false;
+        this.tags.add(tag);
+        return true;
+    }
+
+    public getTags(): string[] {
+        return [...this.tags];
+    }
+
+    public hasTag(tag: string): boolean {
+        return this.tags.has(tag);
+    }
+
+    public removeTag(tag: string): boolean {
+        return this.tags.delete(tag);
+    }
+
+    /**
+     * Creates a new instance of `FakePlayer`.
+     * @param id The unique entity identifier of the player.
+     * @param name The name of the player.
+     * @returns A new `FakePlayer` instance.
+     */
+    static create(id: string, name: string): FakePlayer {
+        return new FakePlayer(id, name);
+    }
+}
+
+/**
+ * Represents an in-memory world.
+ */
+export class FakeWorld implements AcmWorld {
+    public readonly scoreboard: FakeScoreboard = FakeScoreboard.create();
+    private readonly players: Map<string, FakePlayer> = new Map();
+    private nextEntityId: number = -4294967295;
+
+    private constructor() { }
+
+    public getEntity(id: string): FakePlayer | undefined {
+        return this.players.get(id);
+    }
+
+    public getAllPlayers(): FakePlayer[] {
+        return [...this.players.values()];
+    }
+
+    /**
+     * Adds a player to the world.
+     * @param name The name of the player.
+     * @returns The new player.
+     */
+    public addPlayer(name: string): FakePlayer {
+        const player: FakePlayer = FakePlayer.create(`${this.nextEntityId--}`, name);
+        this.players.set(player.id, player);
+        return player;
+    }
+
+    /**
+     * Removes a player from the world.
+     * @param player The player to remove.
+     * @returns True if the player was in the world, false otherwise.
+     */
+    public removePlayer(player: FakePlayer): boolean {
+        return this.players.delete(player.id);
+    }
+
+    /**
+     * Creates a new instance of `FakeWorld`.
+     * @returns A new, empty `FakeWorld` instance.
+     */
+    static create(): FakeWorld {
+        return new FakeWorld();
+    }
+}
+
+/**
+ * Represents an in-memory script event signal.
+ */
+export class FakeScriptEventSignal {
+    private readonly subscribers: Set<(event: AcmScriptEvent) => void> = new Set();
+
+    private constructor() { }
+
+    public subscribe(callback: (event: AcmScriptEvent) => void): (event: AcmScriptEvent) => void {
+        this.subscribers.add(callback);
+        return callback;
+    }
+
+    public unsubscribe(callback: (event: AcmScriptEvent) => void): void {
+        this.subscribers.delete(callback);
+    }
+
+    /**
+     * Delivers a script event to every subscriber.
+     * @param event The script event to deliver.
+     */
+    public dispatch(event: AcmScriptEvent): void {
+        for (const callback of [...this.subscribers]) callback(event);
+    }
+
+    /**
+     * Creates a new instance of `FakeScriptEventSignal`.
+     * @returns A new `FakeScriptEventSignal` instance.
+     */
+    static create(): FakeScriptEventSignal {
+        return new FakeScriptEventSignal();
+    }
+}
+
+/**
+ * Represents an in-memory system with a manually advanced tick clock.
+ * Script events sent with `sendScriptEvent` are delivered on the next `tick`, as they are in game.
+ */
+export class FakeSystem implements AcmSystem {
+    public readonly afterEvents: { readonly scriptEventReceive: FakeScriptEventSignal } = { scriptEventReceive: FakeScriptEventSignal.create() };
+    /** Every script event sent through this system, in order. */
+    public readonly sentEvents: AcmScriptEvent[] = [];
+    private pendingEvents: AcmScriptEvent[] = [];
+    private readonly runs: Map<number, { callback: () => void, dueTick: number, interval?: number }> = new Map();
+    private nextRunId: number = 1;
+    private tickCount: number = 0;
+
+    private constructor() { }
+
+    /** The current tick of the system. */
+    public get currentTick(): number {
+        return this.tickCount;
+    }
+
+    public sendScriptEvent(id: string, message: string): void {
+        if (!id.includes(':')) throw new Error(`Script event id ${id} must be namespaced`);
+        const event: AcmScriptEvent = { id, message };
+        this.sentEvents.push(event);
+        this.pendingEvents.push(event);
+    }
+
+    /**
+     * Delivers a script event to subscribers immediately, as if sent by another pack or a command.
+     * @param id The namespaced identifier of the script event.
+     * @param message The message sent with the script event (default: empty).
+     * @param sourceEntity The entity that sent the script event (optional).
+     */
+    public receiveScriptEvent(id: string, message: string = '', sourceEntity?: unknown): void {
+        this.afterEvents.scriptEventReceive.dispatch({ id, message, sourceEntity });
+    }
+
+    public run(callback: () => void): number {
+        return this.runTimeout(callback, 0);
+    }
+
+    public runTimeout(callback: () => void, tickDelay: number = 1): number {
+        const runId: number = this.nextRunId++;
+        this.runs.set(runId, { callback, dueTick: this.tickCount + Math.max(1, tickDelay) });
+        return runId;
+    }
+
+    public runInterval(callback: () => void, tickInterval: number = 1): number {
+        const runId: number = this.nextRunId++;
+        const interval: number = Math.max(1, tickInterval);
+        this.runs.set(runId, { callback, dueTick: this.tickCount + interval, interval });
+        return runId;
+    }
+
+    public clearRun(runId: number): void {
+        this.runs.delete(runId);
+    }
+
+    /**
+     * Advances the clock, delivering pending script events and running due callbacks on each tick.
+     * @param count The number of ticks to advance (default: 1).
+     */
+    public tick(count: number = 1): void {
+        for (let i = 0; i < count; i++) {
+            this.tickCount++;
+            const events: AcmScriptEvent[] = this.pendingEvents;
+            this.pendingEvents = [];
+            events.forEach(event => this.afterEvents.scriptEventReceive.dispatch(event));
+
+            for (const [runId, run] of [...this.runs]) {
+                if (run.dueTick > this.tickCount || !this.runs.has(runId)) continue;
+                if (run.interval) run.dueTick += run.interval;
+                else this.runs.delete(runId);
+                run.callback();
+            }
+        }
+    }
+
+    /**
+     * Creates a new instance of `FakeSystem`.
+     * @returns A new `FakeSystem` instance at tick 0.
+     */
+    static create(): FakeSystem {
+        return new FakeSystem();
+    }
+}
+
+/**
+ * Represents an in-memory host that can be passed to `AcmLibrary.create`.
+ */
+export interface FakeHost extends AcmHost {
+    readonly world: FakeWorld;
+    readonly system: FakeSystem;
+}
+
+/**
+ * Creates a new, empty in-memory host.
+ * @returns A new `FakeHost` with its own world and system.
+ */
+export function createFakeHost(): FakeHost {
+    return { world: FakeWorld.create(), system: FakeSystem.create() };
+}
+
+/**
+ * Simulates the ACM engine side of the protocol on a fake host, including the newer events listed under
+ * "Engine protocol" in the README that older engines do not send or answer.
+ */
+export class FakeAcmEngine {
+    /** The addon data received from every `acm:addon_ready` handshake, in order. */
+    public readonly readyAddons: AddonData[] = [];
+    /** The identifiers of the addons that sent `acm:engine_probe`, in order. */
+    public readonly probes: string[] = [];
+    /** The settings changes scripts announced through `acm:settings_refresh`, in order. */
+    public readonly settingsRefreshes: { addonId: string, paths: string[] }[] = [];
+    /** The outcomes of preset actions received from `acm:preset_result`, in order. */
+    public readonly presetResults: { addonId: string, playerId: string, action: string, name?: string, status: string, message?: string }[] = [];
+    /** The results of extension triggers received from `acm:ext_result`, in order. */
+    public readonly extensionResults: { addonId: string, extensionId: string, playerId: string, status: string, message?: string }[] = [];
+    private online: boolean = false;
+
+    private constructor(private readonly host: FakeHost) {
+        host.system.afterEvents.scriptEventReceive.subscribe((event: AcmScriptEvent) => {
+            if (event.id === 'acm:addon_ready') this.readyAddons.push(JSON.parse(event.message) as AddonData);
+            if (event.id === 'acm:ext_result') this.extensionResults.push(JSON.parse(event.message));
+            if (event.id === 'acm:settings_refresh') this.settingsRefreshes.push(JSON.parse(event.message));
+            if (event.id === 'acm:preset_result') this.presetResults.push(JSON.parse(event.message));
+            if (event.id !== 'acm:engine_probe') return;
+            this.probes.push(event.message);
+            if (this.online) this.ready();
+        });
+    }
+
+    private settingsObjective(addonId: string, categoryTitle?: string): string {
+        const identifier: string = addonId.toUpperCase();
+        return categoryTitle ? `ACM:${identifier}_${categoryTitle.toUpperCase()}` : `ACM:${identifier}`;
+    }
+
+    /**
+     * Sends the `acm:engine_ready` handshake; delivered on the next tick. From then on, probes are answered with the handshake.
+     */
+    public ready(): void {
+        this.online = true;
+        this.host.system.sendScriptEvent('acm:engine_ready', '');
+    }
+
+    /**
+     * Creates the `ACM:LOG` objective used by the ACM logger, if missing.
+     */
+    public createLogStore(): void {
+        if (!this.host.world.scoreboard.getObjective('ACM:LOG')) this.host.world.scoreboard.addObjective('ACM:LOG');
+    }
+
+    /**
+     * Gets the entries written to the ACM logger.
+     * @returns The log entries, or an empty array if the log store does not exist.
+     */
+    public logEntries(): string[] {
+        const db: FakeScoreboardObjective | undefined = this.host.world.scoreboard.getObjective('ACM:LOG');
+        return db ? db.getParticipants().map(participant => participant.displayName) : [];
+    }
+
+    /**
+     * Stores settings the way the ACM HUD saves them, then sends `acm:settings_<addonId>`; delivered on the next tick.
+     * @param addonId The `<author>_<packId>` identifier of the addon.
+     * @param settings The settings widgets, including their values.
+     * @param categoryTitle The title of the settings category (optional).
+     * @param player The player saving the settings (optional).
+     * @param eventDelay The ticks the event lags behind the save, as it may in game (default: 0).
+     */
+    public saveSettings(addonId: string, settings: SettingsWidget[], categoryTitle?: string, player?: FakePlayer, eventDelay: number = 0): void {
+        const scoreboard: FakeScoreboard = this.host.world.scoreboard;
+        const objectiveId: string = this.settingsObjective(addonId, categoryTitle);
+        const db: FakeScoreboardObjective = scoreboard.getObjective(objectiveId) ?? scoreboard.addObjective(objectiveId);
+        db.getParticipants().filter(participant => db.getScore(participant) === 0).forEach(participant => db.removeParticipant(participant));
+        db.setScore(JSON.stringify(settings), 0);
+        const notify = (): void => this.host.system.sendScriptEvent(`acm:settings_${addonId}`, JSON.stringify({ playerId: player?.id }));
+        if (eventDelay > 0) this.host.system.runTimeout(notify, eventDelay);
+        else notify();
+    }
+
+    /**
+     * Runs a preset action from the addon page the way the ACM HUD does; delivered on the next tick.
+     * @param addonId The `<author>_<packId>` identifier of the addon.
+     * @param player The player choosing the action.
+     * @param action The action: `apply` or `delete` a preset or profile by name, `save` a profile, or `reset` to the declared values.
+     * @param name The name of the preset or profile (optional for `reset`).
+     * @param category The key or title of the only category affected (optional).
+     */
+    public presetAction(addonId: string, player: FakePlayer, action: 'apply' | 'reset' | 'save' | 'delete', name?: string, category?: string): void {
+        this.host.system.sendScriptEvent(`acm:preset_${addonId}`, JSON.stringify({ playerId: player.id, action, name, category }));
+    }
+
+    /**
+     * Triggers an addon extension the way the ACM HUD does; delivered on the next tick.
+     * @param addonId The `<author>_<packId>` identifier of the addon.
+     * @param extensionId The identifier of the extension.
+     * @param player The player triggering the extension.
+     * @param args The arguments sent with the trigger (optional).
+     */
+    public triggerExtension(addonId: string, extensionId: string, player: FakePlayer, args?: any): void {
+        this.host.system.sendScriptEvent(`acm:ext_${addonId}`, JSON.stringify({ playerId: player.id, extensionId, args }));
+    }
+
+    /**
+     * Creates a new instance of `FakeAcmEngine`.
+     * @param host The fake host the engine runs on.
+     * @returns A new `FakeAcmEngine` instance.
+     */
+    static create(host: FakeHost): FakeAcmEngine {
+        return new FakeAcmEngine(host);
+    }
+}
+
+const defaultHost: FakeHost = createFakeHost();
+
+/** The default fake world, exported so this module can stand in for `@minecraft/server`. */
+export const world: FakeWorld = defaultHost.world;
+/** The default fake system, exported so this module can stand in for `@minecraft/server`. */
+export const system: FakeSystem = defaultHost.system;
@@ -4,40 +4,108 @@
  Copyright (c) Voxel Media Co - Voxel Lab Studios
 **************************************************
 */
-import { Player, Scoreboard, ScoreboardIdentity, ScoreboardObjective, ScriptEventCommandMessageAfterEvent, system, world } from "@minecraft/server";
+import { Entity, Player, system, world } from "@minecraft/server";
+
+/**
+ * Represents where a setting's value is stored: shared by the whole world, or per player.
+ */
+export type SettingsScope = 'world' | 'player';
+
+/**
+ * Represents a custom settings validator.
+ * Returns an error message or `false` when the value is invalid, and `true` or nothing when it is valid.
+ */
+export type SettingsValidator<T> = (value: T) => string | boolean | void;
+
+/**
+ * Represents a condition on the value of another widget, such as showing an option only while a toggle is on.
+ */
+export interface SettingsCondition {
+    /** The settings path of the widget, as `key` for a widget of the same category or `category.key`. */
+    setting: string;
+    /** The value the widget must have (optional). */
+    equals?: any;
+    /** The values of which the widget must have one (optional). Without `equals` or `oneOf`, the value must be truthy (or a non-empty list). */
+    oneOf?: readonly any[];
+    /** Whether the condition is inverted (optional). */
+    not?: boolean;
+}
+
+/**
+ * Represents the conditions under which a widget is shown and editable in the ACM (HUD).
+ */
+export interface WidgetConditions {
+    /** The condition for the widget to be shown (optional, defaults to always). */
+    visibleWhen?: SettingsCondition;
+    /** The condition for the widget to be editable (optional, defaults to always). */
+    enabledWhen?: SettingsCondition;
+}
+
+/**
+ * Represents a red, green and blue color, each channel from 0 to 255.
+ */
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
 
 /**
  * Represents a text field widget used in settings.
  */
-export interface TextFieldWidget {
+export interface TextFieldWidget extends WidgetConditions {
+    /** The stable key the text field value is stored under (optional, defaults to the label). */
+    key?: string;
     /** The label displayed for the text field. */
     label: string;
+    /** Whether the text field value is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
     /** Placeholder text displayed inside the text field. */
     placeholder: string;
     /** The current value of the text field (optional). */
     value?: string;
+    /** Whether the text field must not be empty (optional). */
+    required?: boolean;
+    /** A regular expression source the value must match when not empty (optional). */
+    pattern?: string;
+    /** Whether the value must parse as a number (optional). */
+    numeric?: boolean;
+    /** The maximum number of characters allowed (optional). */
+    maxLength?: number;
+    /** A custom validator for the value (optional). */
+    validate?: SettingsValidator<string>;
 }
 
 /**
  * Represents a dropdown widget used in settings.
  */
-export interface DropdownWidget {
+export interface DropdownWidget extends WidgetConditions {
+    /** The stable key the dropdown value is stored under (optional, defaults to the label). */
+    key?: string;
     /** The label displayed for the dropdown. */
     label: string;
+    /** Whether the dropdown value is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
     /** The list of options available in the dropdown. */
-    options: string[];
+    options: readonly string[];
     /** The index of the currently selected option (optional). */
     valueIndex?: number;
     /** The value of the currently selected option (optional). */
     value?: string;
+    /** A custom validator for the selected option (optional). */
+    validate?: SettingsValidator<string>;
 }
 
 /**
  * Represents a slider widget used in settings.
  */
-export interface SliderWidget {
+export interface SliderWidget extends WidgetConditions {
+    /** The stable key the slider value is stored under (optional, defaults to the label). */
+    key?: string;
     /** The label displayed for the slider. */
     label: string;
+    /** Whether the slider value is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
     /** The minimum value of the slider. */
     min: number;
     /** The maximum value of the slider. */
@@ -46,31 +114,186 @@ export interface SliderWidget {
     step: number;
     /** The current value of the slider (optional). */
     value?: number;
+    /** A custom validator for the value (optional). */
+    validate?: SettingsValidator<number>;
 }
 
 /**
  * Represents a toggle widget used in settings.
  */
-export interface ToggleWidget {
+export interface ToggleWidget extends WidgetConditions {
+    /** The stable key the toggle value is stored under (optional, defaults to the label). */
+    key?: string;
     /** The label displayed for the toggle. */
     label: string;
+    /** Whether the toggle value is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
     /** The current state of the toggle (true for on, false for off, optional). */
     value?: boolean;
+    /** A custom validator for the state (optional). */
+    validate?: SettingsValidator<boolean>;
+}
+
+/**
+ * Represents a read-only text widget: a `label`, or a `header` that starts a group of widgets.
+ */
+export interface LabelWidget extends WidgetConditions {
+    type: 'label' | 'header';
+    /** The optional key identifying the widget. */
+    key?: string;
+    /** The text displayed. */
+    label: string;
+}
+
+/**
+ * Represents a divider between groups of widgets.
+ */
+export interface DividerWidget extends WidgetConditions {
+    type: 'divider';
+    /** The optional key identifying the widget. */
+    key?: string;
+    /** The optional caption displayed on the divider. */
+    label?: string;
+}
+
+/**
+ * Represents a numeric input widget used in settings, for numbers typed in rather than picked on a slider.
+ */
+export interface NumberInputWidget extends WidgetConditions {
+    type: 'number';
+    /** The stable key the number is stored under (optional, defaults to the label). */
+    key?: string;
+    /** The label displayed for the input. */
+    label: string;
+    /** Whether the number is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
+    /** Placeholder text displayed inside the input (optional). */
+    placeholder?: string;
+    /** The minimum value allowed (optional). */
+    min?: number;
+    /** The maximum value allowed (optional). */
+    max?: number;
+    /** Whether the number must be whole (optional). */
+    integer?: boolean;
+    /** The current value of the input (optional). */
+    value?: number;
+    /** A custom validator for the value (optional). */
+    validate?: SettingsValidator<number>;
+}
+
+/**
+ * Represents a multi-select list widget used in settings.
+ */
+export interface MultiSelectWidget extends WidgetConditions {
+    type: 'multiselect';
+    /** The stable key the selection is stored under (optional, defaults to the label). */
+    key?: string;
+    /** The label displayed for the list. */
+    label: string;
+    /** Whether the selection is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
+    /** The list of options available. */
+    options: readonly string[];
+    /** The fewest options that must be selected (optional). */
+    minSelected?: number;
+    /** The most options that may be selected (optional). */
+    maxSelected?: number;
+    /** The currently selected options (optional). */
+    value?: readonly string[];
+    /** A custom validator for the selection (optional). */
+    validate?: SettingsValidator<string[]>;
+}
+
+/**
+ * Represents a color picker widget used in settings. The value is stored as `#rrggbb`
+ * and loaded as a hex string, or as an `RgbColor` when `format` is `rgb`.
+ */
+export interface ColorPickerWidget extends WidgetConditions {
+    type: 'color';
+    /** The stable key the color is stored under (optional, defaults to the label). */
+    key?: string;
+    /** The label displayed for the picker. */
+    label: string;
+    /** Whether the color is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
+    /** The shape of the loaded value (optional, defaults to `hex`). */
+    format?: 'hex' | 'rgb';
+    /** The current color, as `#rrggbb` or an `RgbColor` (optional, defaults to white). */
+    value?: string | RgbColor;
+    /** A custom validator for the color, as `#rrggbb` (optional). */
+    validate?: SettingsValidator<string>;
+}
+
+/**
+ * Represents a player picker widget used in settings; the value is the player's name, or empty for none.
+ */
+export interface PlayerPickerWidget extends WidgetConditions {
+    type: 'player';
+    /** The stable key the player name is stored under (optional, defaults to the label). */
+    key?: string;
+    /** The label displayed for the picker. */
+    label: string;
+    /** Whether the player is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
+    /** Whether a player must be picked (optional). */
+    required?: boolean;
+    /** The name of the currently picked player (optional). */
+    value?: string;
+    /** A custom validator for the player name (optional). */
+    validate?: SettingsValidator<string>;
+}
+
+/**
+ * Represents a list editor widget used in settings, for editing a list of strings.
+ */
+export interface ListEditorWidget extends WidgetConditions {
+    type: 'list';
+    /** The stable key the list is stored under (optional, defaults to the label). */
+    key?: string;
+    /** The label displayed for the list. */
+    label: string;
+    /** Whether the list is shared by the world or stored per player (optional, defaults to the category scope or `world`). */
+    scope?: SettingsScope;
+    /** The most items the list may hold (optional). */
+    maxItems?: number;
+    /** A regular expression source every item must match (optional). */
+    pattern?: string;
+    /** Whether items must not repeat (optional). */
+    unique?: boolean;
+    /** The current items (optional). */
+    value?: readonly string[];
+    /** A custom validator for the list (optional). */
+    validate?: SettingsValidator<string[]>;
 }
 
+/**
+ * Represents a settings widget that holds a value.
+ */
+export type SettingsValueWidget = TextFieldWidget | DropdownWidget | SliderWidget | ToggleWidget
+    | NumberInputWidget | MultiSelectWidget | ColorPickerWidget | PlayerPickerWidget | ListEditorWidget;
+
+/**
+ * Represents a settings widget that only lays out the form and holds no value.
+ */
+export type SettingsDisplayWidget = LabelWidget | DividerWidget;
+
 /**
  * Represents a generic settings widget, which can be one of several widget types.
  */
-export type SettingsWidget = TextFieldWidget | DropdownWidget | SliderWidget | ToggleWidget;
+export type SettingsWidget = SettingsValueWidget | SettingsDisplayWidget;
 
 /**
  * Represents a category of settings, containing multiple widgets.
  */
 export interface SettingsCatagory {
+    /** The stable key the category values are stored under (optional, defaults to the title). */
+    key?: string;
     /** The title of the settings category. */
     title: string;
+    /** Whether the category values are shared by the world or stored per player (optional, defaults to `world`). */
+    scope?: SettingsScope;
     /** The list of settings widgets within the category. */
-    settings: SettingsWidget[];
+    settings: readonly SettingsWidget[];
     /** The optional path to an icon representing the category. */
     iconPath?: string;
 }
@@ -83,6 +306,67 @@ export interface ExtensionData {
     id: string;
     /** The optional path to an icon representing the extension. */
     iconPath?: string;
+    /** The optional title shown in the ACM (HUD) instead of the id. */
+    title?: string;
+    /** The optional description shown in the ACM (HUD). */
+    description?: string;
+    /** The optional position among the addon's extensions; lower values are listed first (default: 0). */
+    order?: number;
+    /** The optional requirements a player must meet to trigger the extension. */
+    permission?: ExtensionPermission;
+}
+
+/**
+ * Represents the requirements a player must meet to trigger an extension.
+ */
+export interface ExtensionPermission {
+    /** Whether the player must be an operator, as decided by the `isOperator` option of `initAddon`; denied without it. */
+    operator?: boolean;
+    /** Tags of which the player must have at least one. */
+    tags?: string[];
+}
+
+/**
+ * Represents the outcome of an extension handler, shown back to the player in the ACM (HUD) by engines that
+ * implement `acm:ext_result`; other engines ignore it.
+ */
+export interface ExtensionResult {
+    status: 'ok' | 'error' | 'denied';
+    /** The optional message shown with the status. */
+    message?: string;
+}
+
+/**
+ * Represents a function handling the triggers of an extension; it may return a message or a result, sync or async.
+ */
+export type ExtensionHandler = (player: Player, args: any) => ExtensionResult | string | void | Promise<ExtensionResult | string | void>;
+
+/**
+ * Represents a dependency of an addon on another addon registered with ACM.
+ */
+export interface AddonDependency {
+    /** The identifier of the addon depended on, as `author_packId`. */
+    id: string;
+    /** The semver range of accepted versions, e.g. `^1.2.0` or `>=1.0.0 <2.0.0` (default: any version). */
+    version?: string;
+    /** Whether the addon works without the dependency, in which case it is only reported when incompatible. */
+    optional?: boolean;
+}
+
+/**
+ * Represents a dependency that is missing or whose registered version is outside the declared range.
+ */
+export interface DependencyIssue {
+    /** The identifier of the addon depended on. */
+    id: string;
+    /** The declared semver range. */
+    range: string;
+    /** Whether the addon is not registered, or registered with a version outside the range. */
+    reason: 'missing' | 'incompatible';
+    /** The registered version, if any. */
+    version?: string;
+    /** Whether the dependency is optional. */
+    optional: boolean;
 }
 
 /**
@@ -99,8 +383,8 @@ export interface AddonData {
         author: string;
         /** The unique pack ID of the addon. */
         packId: string;
-        /** Optional list of dependencies for the addon. */
-        dependencies?: string[];
+        /** Optional list of dependencies for the addon, either as declarations or as `author_packId` / `author_packId@range` strings. */
+        dependencies?: (string | AddonDependency)[];
     };
     /** The optional path to an icon representing the addon. */
     iconPath?: string;
@@ -109,7 +393,90 @@ export interface AddonData {
     /** Optional list of extensions associated with the addon. */
     extensions?: ExtensionData[];
     /** Optional settings for the addon, which can be widgets or categories. */
-    settings?: SettingsWidget[] | SettingsCatagory[];
+    settings?: SettingsDeclaration;
+    /** Optional named sets of settings values players can apply from the addon page, with engines that implement `acm:preset_<id>`. */
+    presets?: SettingsPreset[];
+}
+
+/**
+ * Represents a named set of settings values, such as "Casual" or "Hardcore".
+ */
+export interface SettingsPreset {
+    /** The unique name of the preset. */
+    name: string;
+    /** The optional description shown in the ACM (HUD). */
+    description?: string;
+    /** The values the preset applies, shaped like `loadSettingsData()` (categories may be partial). */
+    values: { [key: string]: any };
+}
+
+/**
+ * Represents a preset or a saved profile, as listed on the addon page.
+ */
+export interface SettingsPresetInfo {
+    name: string;
+    description?: string;
+    /** Whether the preset is a profile saved with `saveProfile` rather than declared in `AddonData`. */
+    custom: boolean;
+}
+
+/**
+ * Represents the declared settings of an addon: either flat widgets or categories of widgets.
+ */
+export type SettingsDeclaration = readonly SettingsWidget[] | readonly SettingsCatagory[];
+
+type WidgetKey<W> = W extends { readonly key: infer K extends string } ? K : W extends { readonly label: infer L extends string } ? L : never;
+
+type CategoryKey<C> = C extends { readonly key: infer K extends string } ? K : C extends { readonly title: infer T extends string } ? T : never;
+
+/**
+ * Resolves the value type of a settings widget: the union of its options for dropdowns, an array of them for multi-selects,
+ * `number` for sliders and numeric inputs, `string` for text fields, player pickers and hex colors,
+ * `RgbColor` for `rgb` colors, `string[]` for list editors and `boolean` for toggles.
+ */
+export type SettingsWidgetValue<W extends SettingsWidget> =
+    W extends { readonly type: 'number' } ? number :
+    W extends { readonly type: 'multiselect', readonly options: readonly string[] } ? W['options'][number][] :
+    W extends { readonly type: 'color', readonly format: 'rgb' } ? RgbColor :
+    W extends { readonly type: 'color' | 'player' } ? string :
+    W extends { readonly type: 'list' } ? string[] :
+    W extends { readonly type: string } ? never :
+    W extends DropdownWidget ? W['options'][number] :
+    W extends SliderWidget ? number :
+    W extends TextFieldWidget ? string :
+    W extends ToggleWidget ? boolean : never;
+
+/**
+ * Resolves the settings object for a list of widgets, keyed by each widget's key (or label); display widgets hold no value.
+ */
+export type SettingsValues<W extends readonly SettingsWidget[]> =
+    string extends WidgetKey<Exclude<W[number], SettingsDisplayWidget>> ? { [key: string]: any } :
+    { [E in W[number] as E extends { readonly type: 'label' | 'header' | 'divider' } ? never : WidgetKey<E>]: SettingsWidgetValue<E> };
+
+/**
+ * Resolves the settings object for a settings declaration, nested per category when categories are used.
+ */
+export type SettingsData<S extends SettingsDeclaration | undefined> =
+    S extends readonly SettingsCatagory[] ? (
+        string extends CategoryKey<S[number]> ? { [key: string]: any } :
+        { [C in S[number] as CategoryKey<C>]: SettingsValues<C['settings']> }
+    ) :
+    S extends readonly SettingsWidget[] ? SettingsValues<S> : { [key: string]: any };
+
+/**
+ * Represents a partial update of settings data: any subset of the categories, and of the values within each.
+ */
+export type SettingsUpdate<S extends SettingsDeclaration | undefined> =
+    S extends readonly SettingsCatagory[] ? { [C in keyof SettingsData<S>]?: Partial<SettingsData<S>[C]> } : Partial<SettingsData<S>>;
+
+/**
+ * Declares addon data while preserving its literal types, so `loadSettingsData<typeof addon>()` is fully typed.
+ * 
+ * @param addonData - The data associated with the addon.
+ * @returns The same addon data.
+ */
+export function defineAddon<const A extends AddonData>(addonData: A): A {
+    return addonData;
 }
 
 export enum AcmIcon {
@@ -123,466 +490,3773 @@ export enum AcmIcon {
     Uninstall = "textures/vxl/acm/icons/uninstall"
 }
 
-class AcmLibrary {
-    public readonly Events: Events = Events.create();
-    public readonly Fs: FsSys = FsSys.create();
-    public addonData: AddonData | undefined = undefined;
-    private responseAdress: string | undefined = undefined;
-    private hasExtensions: boolean = false;
-    private constructor() {
-        system.afterEvents.scriptEventReceive.subscribe((event: ScriptEventCommandMessageAfterEvent) => this.extensionListener(event));
+/**
+ * Represents a problem found in a settings declaration or in stored settings values.
+ */
+export interface SettingsIssue {
+    /** `error` for an invalid declaration, `warning` for a value that was replaced by its default. */
+    severity: 'error' | 'warning';
+    /** The settings path the issue refers to, as `key` or `category.key`. */
+    path: string;
+    /** A description of the issue. */
+    message: string;
+    /** The offending value (optional). */
+    value?: any;
+}
 
-    }
+/**
+ * Represents an addon's settings as stored in the scoreboard, used as the input and output of migrations.
+ */
+export interface PersistedSettings {
+    /** The widgets stored in the addon's root `ACM:<ID>` objective. */
+    root: SettingsWidget[];
+    /** The widgets stored in each `ACM:<ID>_<TITLE>` objective of a declared category, or of one named by a migration, keyed by upper-cased category title. */
+    categories: { [title: string]: SettingsWidget[] };
+}
 
-    private onWorldReady(): void {
-        if (!this.addonData) throw Error("addon data is undefined.");
-        system.sendScriptEvent('acm:addon_ready', JSON.stringify(this.addonData));
-        OnAddonReadyEventSignal.emit(OnAddonReadyEvent.create(this.addonData));
+/**
+ * Represents a transform applied to stored settings when upgrading between addon versions.
+ */
+export interface SettingsMigration {
+    /** The addon version the migration upgrades from. */
+    from: string;
+    /** The addon version the migration upgrades to. */
+    to: string;
+    /** Rewrites the stored settings; may mutate and return nothing, or return a replacement. */
+    migrate: (settings: PersistedSettings) => PersistedSettings | void;
+    /** The titles of categories that are no longer declared but whose stored settings the migration reads (optional). */
+    categories?: string[];
+}
+
+/**
+ * Represents a portable backup of an addon's data, as produced by `AcmLibrary.exportData` and serialized as JSON.
+ * A backup can only be imported by the same addon at the same or a newer version; settings from older versions
+ * are upgraded through the registered migrations.
+ */
+export interface AcmBackup {
+    /** Always `acm-backup`. */
+    format: 'acm-backup';
+    /** The version of the backup format, currently 1. */
+    formatVersion: number;
+    /** The identifier (`AUTHOR_PACKID`) of the addon the data belongs to. */
+    addonId: string;
+    /** The addon's `description.version` when the backup was made. */
+    addonVersion: string;
+    /** The world settings, as stored in the scoreboard. */
+    settings: PersistedSettings;
+    /** The player-scoped setting overrides, keyed by player id and then settings path. */
+    players: { [playerId: string]: { [path: string]: any } };
+    /** Every directory owned by the addon, keyed by path, with the content of each file and the access granted to other addons. */
+    directories: { [path: string]: { files: { [fileName: string]: any }, grants: { [addonId: string]: FsAccess } } };
+    /** The profiles saved with `saveProfile`, keyed by name and then settings path (absent in backups made before profiles were exported). */
+    profiles?: { [name: string]: { [path: string]: any } };
+}
+
+/**
+ * Represents how `importData` resolves data present both in the world and in the backup:
+ * `replace` discards all current data first, `merge` takes the backup's value, and `skip` keeps the current value.
+ */
+export type BackupConflict = 'replace' | 'merge' | 'skip';
+
+/**
+ * Represents the outcome of an `importData` call.
+ */
+export interface BackupImportResult {
+    /** The number of settings, player overrides, profiles and files written from the backup. */
+    written: number;
+    /** The number of settings, player overrides, profiles and files kept at their current value. */
+    skipped: number;
+}
+
+const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Represents a declared settings widget together with its settings path and category.
+ */
+interface DeclaredSetting {
+    path: string;
+    setting: SettingsValueWidget;
+    category?: SettingsCatagory;
+}
+
+/**
+ * Compares two dot-separated versions numerically, ignoring any pre-release suffix.
+ * @returns A negative number if `a` is older than `b`, a positive number if newer, or 0 if equal.
+ */
+function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.split('-')[0].split('.').map(part => parseInt(part, 10) || 0);
+    const [partsA, partsB] = [parse(a), parse(b)];
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) return diff;
     }
+    return 0;
+}
 
-    private extensionListener(event: ScriptEventCommandMessageAfterEvent): void {
-        if (event.id === `acm:engine_ready`) {
-            this.onWorldReady(); return; //ACM:SIGNAL.ADDON_ID.EMITTER_ID
+/**
+ * Checks whether a version satisfies a semver range such as `^1.2.0`, `~1.2`, `>=1.0.0 <2.0.0`, `1.x` or `1.0.0 - 1.4.0`,
+ * with `||` separating alternatives. Pre-release suffixes are ignored, as in `compareVersions`.
+ * @throws Error if the range is malformed.
+ */
+function satisfiesRange(version: string, range: string): boolean {
+    return range.split('||').some(alternative => {
+        const set: string = alternative.trim();
+        const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+        if (hyphen) return satisfiesComparator(version, `>=${hyphen[1]}`) && satisfiesComparator(version, `<=${hyphen[2]}`);
+        return set.split(/\s+/).filter(Boolean).every(comparator => satisfiesComparator(version, comparator));
+    });
+}
 
-        } else if (event.id.startsWith('ACM:SIGNAL.')) {
-            const [, a, e] = event.id.split('.');
-            if (event.message === 'void') {
-                OnCustomSignalEmittedEventSignal.emit({ addonId: a.toLowerCase(), emitterId: e.toLowerCase(), data: undefined });
-            } else {
-                OnCustomSignalEmittedEventSignal.emit({ addonId: a.toLowerCase(), emitterId: e.toLowerCase(), data: JSON.parse(event.message) });
-            }
+/**
+ * Checks a version against a single comparator of a semver range, where missing or `x` parts of the
+ * comparator's version act as wildcards.
+ * @throws Error if the comparator is malformed.
+ */
+function satisfiesComparator(version: string, comparator: string): boolean {
+    const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?(?:-[0-9A-Za-z.-]+)?$/);
+    if (!match) throw Error(`Invalid version range: ${comparator}`);
+    const operator: string = match[1] ?? '=';
+    const parts: number[] = [];
+    for (const part of match.slice(2, 5)) {
+        if (part === undefined || /^[*xX]$/.test(part)) break;
+        parts.push(parseInt(part, 10));
+    }
+    const base: string = [0, 1, 2].map(i => parts[i] ?? 0).join('.');
+    // The lowest version above every version matching the first `index + 1` parts.
+    const bump = (index: number) => [0, 1, 2].map(i => i < index ? parts[i] : i === index ? parts[i] + 1 : 0).join('.');
+    if (parts.length === 0) return operator !== '<' && operator !== '>';
 
-        } else {
-            if (!this.addonData) throw Error("addon data is undefined.");
-            if (!this.hasExtensions || !event.message || !this.responseAdress || event.id !== `acm:ext_${this.responseAdress}` || !this.addonData.extensions) return;
-            const data = JSON.parse(event.message) as { playerId: string, extensionId: string };
-            if (!this.addonData.extensions.some(extension => extension.id.includes(data.extensionId))) return;
-            const player = world.getEntity(data.playerId) as Player | undefined;
-            if (!player) return;
-            OnExtensionTriggerdEventSignal.emit({ extensionId: data.extensionId, player: player });
+    const diff: number = compareVersions(version, base);
+    switch (operator) {
+        case '>': return parts.length === 3 ? diff > 0 : compareVersions(version, bump(parts.length - 1)) >= 0;
+        case '>=': return diff >= 0;
+        case '<': return diff < 0;
+        case '<=': return parts.length === 3 ? diff <= 0 : compareVersions(version, bump(parts.length - 1)) < 0;
+        case '~': return diff >= 0 && compareVersions(version, bump(parts.length >= 2 ? 1 : 0)) < 0;
+        case '^': {
+            const significant: number = parts.findIndex(part => part !== 0);
+            return diff >= 0 && compareVersions(version, bump(significant === -1 ? parts.length - 1 : significant)) < 0;
         }
+        default: return parts.length === 3 ? diff === 0 : diff >= 0 && compareVersions(version, bump(parts.length - 1)) < 0;
     }
+}
 
-    private identifier(): string {
-        return `${this.addonData?.description.author}_${this.addonData?.description.packId}`;
+/**
+ * Normalizes a dependency declaration, parsing the `author_packId@range` string form.
+ */
+function parseDependency(dependency: string | AddonDependency): Required<AddonDependency> {
+    if (typeof dependency !== 'string') return { id: dependency.id.toLowerCase(), version: dependency.version ?? '*', optional: dependency.optional ?? false };
+    const [id, version] = dependency.split('@');
+    return { id: id.trim().toLowerCase(), version: version?.trim() || '*', optional: false };
+}
+
+class SettingsSchema {
+    private constructor() { }
+
+    /**
+     * Gets whether a widget only lays out the form and holds no value.
+     */
+    static isDisplay(setting: SettingsWidget): setting is SettingsDisplayWidget {
+        return 'type' in setting && (setting.type === 'label' || setting.type === 'header' || setting.type === 'divider');
     }
 
-    private isSettingsCatagory(settings: SettingsWidget[] | SettingsCatagory[]): boolean {
-        return settings.length > 0 && 'title' in settings[0];
+    /**
+     * Gets the key a widget's value is stored under.
+     */
+    static key(setting: SettingsValueWidget): string {
+        return setting.key ?? setting.label;
     }
 
-    private getSettingsDatabase(categoryTitle?: string): ScoreboardObjective | undefined {
-        const identifier = this.identifier().toUpperCase();
-        const objectiveName = categoryTitle
-            ? `ACM:${identifier}_${categoryTitle.toUpperCase()}`
-            : `ACM:${identifier}`;
-        return world.scoreboard.getObjective(objectiveName);
+    /**
+     * Gets the default value of a widget, falling back to a valid value when the declared one is out of range.
+     */
+    static defaultValue(setting: SettingsValueWidget): any {
+        if ('type' in setting) {
+            switch (setting.type) {
+                case 'number': return setting.value ?? setting.min ?? 0;
+                case 'multiselect': return [...(setting.value ?? [])];
+                case 'color': return SettingsSchema.formatColor(setting, setting.value ?? '#ffffff');
+                case 'player': return setting.value ?? '';
+                case 'list': return [...(setting.value ?? [])];
+            }
+        }
+        if ('options' in setting) {
+            if (setting.valueIndex !== undefined && setting.valueIndex in setting.options) return setting.options[setting.valueIndex];
+            if (setting.value !== undefined && setting.options.includes(setting.value)) return setting.value;
+            return setting.options[0];
+        }
+        if ('min' in setting) return setting.value ?? setting.min;
+        if ('placeholder' in setting) return setting.value ?? '';
+        return setting.value ?? false;
     }
 
-    private getRawSettingsData(db: ScoreboardObjective): ScoreboardIdentity | undefined {
-        return db.getParticipants().find(participant => db.getScore(participant) === 0);
+    /**
+     * Converts a valid stored or declared value to the shape `loadSettingsData` returns.
+     */
+    static loadedValue(setting: SettingsValueWidget, value: any): any {
+        if (!('type' in setting)) return value;
+        if (setting.type === 'color') return SettingsSchema.formatColor(setting, value);
+        return setting.type === 'multiselect' || setting.type === 'list' ? [...value] : value;
     }
 
-    private parseSettingsArray(rawSettingsData: ScoreboardIdentity): SettingsWidget[] {
-        return JSON.parse(rawSettingsData.displayName) as SettingsWidget[];
+    /**
+     * Converts a color given as `#rrggbb` or `RgbColor` to the widget's format.
+     */
+    private static formatColor(setting: ColorPickerWidget, color: string | RgbColor): string | RgbColor {
+        const hex: string = typeof color === 'string'
+            ? color.toLowerCase()
+            : `#${[color.r, color.g, color.b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+        if (setting.format !== 'rgb') return hex;
+        return { r: parseInt(hex.slice(1, 3), 16), g: parseInt(hex.slice(3, 5), 16), b: parseInt(hex.slice(5, 7), 16) };
     }
 
-    private processSetting(setting: SettingsWidget): any {
-        if ('options' in setting && setting.valueIndex !== undefined) {
-            setting.value = setting.options[setting.valueIndex] || undefined;
+    /**
+     * Gets whether a declared widget is stored per world or per player.
+     */
+    static scope(declared: DeclaredSetting): SettingsScope {
+        return declared.setting.scope ?? declared.category?.scope ?? 'world';
+    }
+
+    /**
+     * Gets the declared value widgets of a settings declaration with their settings paths.
+     */
+    static declared(settings: SettingsDeclaration | undefined): DeclaredSetting[] {
+        if (!settings) return [];
+        if (!(settings.length > 0 && 'title' in settings[0])) {
+            return (settings as readonly SettingsWidget[])
+                .filter((setting): setting is SettingsValueWidget => !SettingsSchema.isDisplay(setting))
+                .map(setting => ({ path: SettingsSchema.key(setting), setting }));
         }
-        return setting.value !== undefined ? setting.value : undefined;
+        return (settings as readonly SettingsCatagory[]).flatMap(category => category.settings
+            .filter((setting): setting is SettingsValueWidget => !SettingsSchema.isDisplay(setting))
+            .map(setting => ({ path: `${category.key ?? category.title}.${SettingsSchema.key(setting)}`, setting, category })));
     }
 
-    private processCategorySettings(category: SettingsCatagory): { [key: string]: any } {
-        const db = this.getSettingsDatabase(category.title);
-        if (!db) return {};
+    /**
+     * Gets the settings path a condition refers to; a bare key refers to the condition's own category.
+     */
+    static conditionPath(condition: SettingsCondition, category?: SettingsCatagory): string {
+        return category && !condition.setting.includes('.') ? `${category.key ?? category.title}.${condition.setting}` : condition.setting;
+    }
 
-        const rawSettingsData = this.getRawSettingsData(db);
-        if (!rawSettingsData) return {};
+    /**
+     * Checks a condition against the value of the widget it refers to.
+     */
+    static meetsCondition(condition: SettingsCondition, value: any): boolean {
+        const same = (other: any) => JSON.stringify(other) === JSON.stringify(value);
+        const met: boolean = condition.equals !== undefined ? same(condition.equals)
+            : condition.oneOf !== undefined ? condition.oneOf.some(same)
+            : Array.isArray(value) ? value.length > 0 : !!value;
+        return condition.not ? !met : met;
+    }
 
-        const settingsArray = this.parseSettingsArray(rawSettingsData);
-        const categoryObject: { [key: string]: any } = {};
+    /**
+     * Creates a copy of a widget holding the given value, as the ACM HUD stores it.
+     */
+    static withValue(setting: SettingsValueWidget, value: any): SettingsWidget {
+        if ('type' in setting && setting.type === 'color') return { ...setting, value: SettingsSchema.formatColor({ ...setting, format: 'hex' }, value) };
+        if ('options' in setting && !('type' in setting)) return { ...setting, value, valueIndex: setting.options.indexOf(value) };
+        return { ...setting, value } as SettingsWidget;
+    }
 
-        settingsArray.forEach(setting => {
-            categoryObject[setting.label] = this.processSetting(setting);
-        });
+    private static compilePattern(pattern: string): RegExp | undefined {
+        try {
+            return new RegExp(pattern);
+        } catch {
+            return undefined;
+        }
+    }
 
-        return categoryObject;
+    private static runValidator(validate: SettingsValidator<any>, value: any): string | undefined {
+        try {
+            const result = validate(value);
+            if (result === false) return 'failed validation';
+            if (typeof result === 'string') return result;
+            return undefined;
+        } catch (error) {
+            return `validator threw: ${error}`;
+        }
     }
 
-    private processFlatSettings(): { [key: string]: any } {
-        const db = this.getSettingsDatabase();
-        if (!db) return {};
+    /**
+     * Checks a value of one of the widget types that declare a `type`.
+     * @returns A description of the first violation, or undefined if the value is valid.
+     */
+    private static validateTypedValue(setting: NumberInputWidget | MultiSelectWidget | ColorPickerWidget | PlayerPickerWidget | ListEditorWidget, value: any): string | undefined {
+        const isStrings = (list: any): boolean => Array.isArray(list) && list.every(item => typeof item === 'string');
+        switch (setting.type) {
+            case 'number':
+                if (typeof value !== 'number' || !isFinite(value)) return 'must be a number';
+                if (setting.integer && !Number.isInteger(value)) return 'must be a whole number';
+                if (setting.min !== undefined && value < setting.min) return `must be at least ${setting.min}`;
+                if (setting.max !== undefined && value > setting.max) return `must be at most ${setting.max}`;
+                return undefined;
+            case 'multiselect': {
+                if (!isStrings(value)) return 'must be a list of options';
+                const unknown = (value as string[]).find(option => !setting.options.includes(option));
+                if (unknown !== undefined) return `"${unknown}" is not one of the options`;
+                if (new Set(value).size !== value.length) return 'must not select an option twice';
+                if (setting.minSelected !== undefined && value.length < setting.minSelected) return `must select at least ${setting.minSelected}`;
+                if (setting.maxSelected !== undefined && value.length > setting.maxSelected) return `must select at most ${setting.maxSelected}`;
+                return undefined;
+            }
+            case 'color': {
+                const isChannel = (channel: any) => Number.isInteger(channel) && channel >= 0 && channel <= 255;
+                if (typeof value === 'string') return /^#[0-9a-fA-F]{6}$/.test(value) ? undefined : 'must be a color as #rrggbb';
+                const isRgb = typeof value === 'object' && value !== null && isChannel(value.r) && isChannel(value.g) && isChannel(value.b);
+                return isRgb ? undefined : 'must be a color as #rrggbb or { r, g, b } from 0 to 255';
+            }
+            case 'player':
+                if (typeof value !== 'string') return 'must be a player name';
+                return setting.required && value.trim() === '' ? 'is required' : undefined;
+            case 'list': {
+                if (!isStrings(value)) return 'must be a list of strings';
+                if (setting.maxItems !== undefined && value.length > setting.maxItems) return `must have at most ${setting.maxItems} items`;
+                if (setting.unique && new Set(value).size !== value.length) return 'must not repeat items';
+                const pattern = setting.pattern !== undefined ? SettingsSchema.compilePattern(setting.pattern) : undefined;
+                const mismatch = pattern ? (value as string[]).find(item => !pattern.test(item)) : undefined;
+                return mismatch !== undefined ? `"${mismatch}" must match ${setting.pattern}` : undefined;
+            }
+        }
+    }
 
-        const rawSettingsData = this.getRawSettingsData(db);
-        if (!rawSettingsData) return {};
+    /**
+     * Checks a value against a widget's type and constraints.
+     * @returns A description of the first violation, or undefined if the value is valid.
+     */
+    static validateValue(setting: SettingsValueWidget, value: any): string | undefined {
+        if ('type' in setting) {
+            const violation = SettingsSchema.validateTypedValue(setting, value);
+            if (violation) return violation;
+            const validated = setting.type === 'color' ? SettingsSchema.formatColor({ ...setting, format: 'hex' }, value) : value;
+            return setting.validate ? SettingsSchema.runValidator(setting.validate as SettingsValidator<any>, validated) : undefined;
+        } else if ('options' in setting) {
+            if (typeof value !== 'string' || !setting.options.includes(value)) return `"${value}" is not one of the options`;
+        } else if ('min' in setting) {
+            if (typeof value !== 'number' || isNaN(value)) return 'must be a number';
+            if (value < setting.min || value > setting.max) return `must be between ${setting.min} and ${setting.max}`;
+            const steps = (value - setting.min) / setting.step;
+            if (setting.step > 0 && Math.abs(steps - Math.round(steps)) > 1e-9) return `must align to a step of ${setting.step}`;
+        } else if ('placeholder' in setting) {
+            if (typeof value !== 'string') return 'must be a string';
+            if (value.trim() === '') return setting.required ? 'is required' : undefined;
+            if (setting.numeric && isNaN(Number(value))) return 'must be numeric';
+            if (setting.maxLength !== undefined && value.length > setting.maxLength) return `must be at most ${setting.maxLength} characters`;
+            const pattern = setting.pattern !== undefined ? SettingsSchema.compilePattern(setting.pattern) : undefined;
+            if (pattern && !pattern.test(value)) return `must match ${setting.pattern}`;
+        } else if (typeof value !== 'boolean') {
+            return 'must be a boolean';
+        }
+        return setting.validate ? SettingsSchema.runValidator(setting.validate as SettingsValidator<any>, value) : undefined;
+    }
 
-        const settingsArray = this.parseSettingsArray(rawSettingsData);
-        const settingsObject: { [key: string]: any } = {};
+    private static validateWidget(setting: SettingsValueWidget, path: string): SettingsIssue[] {
+        const issues: SettingsIssue[] = [];
+        const error = (message: string, value?: any) => issues.push(value === undefined ? { severity: 'error', path, message } : { severity: 'error', path, message, value });
 
-        settingsArray.forEach(setting => {
-            settingsObject[setting.label] = this.processSetting(setting);
-        });
+        if ('type' in setting) {
+            if (setting.type === 'number' && setting.min !== undefined && setting.max !== undefined && setting.min > setting.max) error(`min (${setting.min}) is greater than max (${setting.max})`);
+            if (setting.type === 'multiselect') {
+                if (setting.options.length === 0) error('multi-select has no options');
+                if (setting.minSelected !== undefined && setting.maxSelected !== undefined && setting.minSelected > setting.maxSelected) error(`minSelected (${setting.minSelected}) is greater than maxSelected (${setting.maxSelected})`);
+            }
+            if (setting.type === 'list' && setting.pattern !== undefined && !SettingsSchema.compilePattern(setting.pattern)) error('pattern is not a valid regular expression', setting.pattern);
+            if (setting.type === 'list' && setting.maxItems !== undefined && setting.maxItems < 0) error('maxItems must not be negative', setting.maxItems);
+        } else if ('options' in setting) {
+            if (setting.options.length === 0) error('dropdown has no options');
+            if (setting.valueIndex !== undefined && !(setting.valueIndex in setting.options)) error('valueIndex is out of range', setting.valueIndex);
+            if (setting.value !== undefined && !setting.options.includes(setting.value)) error('value is not one of the options', setting.value);
+        } else if ('min' in setting) {
+            if (setting.min > setting.max) error(`min (${setting.min}) is greater than max (${setting.max})`);
+            if (!(setting.step > 0)) error('step must be greater than 0', setting.step);
+        } else if ('placeholder' in setting) {
+            if (setting.maxLength !== undefined && setting.maxLength < 0) error('maxLength must not be negative', setting.maxLength);
+            if (setting.pattern !== undefined && !SettingsSchema.compilePattern(setting.pattern)) error('pattern is not a valid regular expression', setting.pattern);
+        }
+        if (issues.length > 0) return issues;
 
-        return settingsObject;
+        const value = SettingsSchema.defaultValue(setting);
+        const violation = SettingsSchema.validateValue(setting, value);
+        if (violation) issues.push({ severity: 'warning', path, message: `default value ${violation}`, value });
+        return issues;
     }
 
-    public static create(): AcmLibrary {
-        return new AcmLibrary();
+    private static validateWidgets(settings: readonly SettingsWidget[], prefix: string): SettingsIssue[] {
+        const issues: SettingsIssue[] = [];
+        const keys = new Set<string>();
+        settings.forEach(setting => {
+            if (SettingsSchema.isDisplay(setting)) return;
+            const path = `${prefix}${SettingsSchema.key(setting)}`;
+            if (keys.has(path)) issues.push({ severity: 'error', path, message: 'duplicate settings key' });
+            keys.add(path);
+            issues.push(...SettingsSchema.validateWidget(setting, path));
+        });
+        return issues;
     }
 
     /**
-    * Initializes the addon with the provided data.
-    * 
-    * @param addonData - The data associated with the addon, including metadata and settings.
-    * @throws Error if the addon is already initialized.
-    */
-    public initAddon(addonData: AddonData): void {
-        if (this.addonData) throw Error("Addon already initialized");
-        this.addonData = addonData;
-        this.responseAdress = this.identifier();
-        if (addonData.extensions) this.hasExtensions = true;
+     * Checks that the conditions of every widget refer to another declared widget.
+     */
+    private static validateConditions(settings: SettingsDeclaration): SettingsIssue[] {
+        const paths = new Set(SettingsSchema.declared(settings).map(declared => declared.path));
+        const categories: (SettingsCatagory | undefined)[] = settings.length > 0 && 'title' in settings[0] ? [...settings as readonly SettingsCatagory[]] : [undefined];
+        const issues: SettingsIssue[] = [];
+        categories.forEach(category => (category?.settings ?? settings as readonly SettingsWidget[]).forEach(setting => {
+            const prefix = category ? `${category.key ?? category.title}.` : '';
+            const path = `${prefix}${setting.key ?? setting.label ?? 'divider'}`;
+            (['visibleWhen', 'enabledWhen'] as const).forEach(name => {
+                const condition: SettingsCondition | undefined = setting[name];
+                if (!condition) return;
+                const target = SettingsSchema.conditionPath(condition, category);
+                if (!paths.has(target)) issues.push({ severity: 'error', path, message: `${name} refers to undeclared setting ${target}` });
+                else if (target === path) issues.push({ severity: 'error', path, message: `${name} refers to the widget itself` });
+            });
+        }));
+        return issues;
     }
 
     /**
-    * Logs a message to ACM's interal logger.
-    * 
-    * @param message - The message to log.
-    * @throws Error if the log database (scoreboard objective) is not found.
-    */
-    public log(message: string): void {
-        const db: ScoreboardObjective | undefined = world.scoreboard.getObjective('ACM:LOG');
-        if (!db) throw Error("Log database not found");
-        const entry: number = db.getParticipants().length + 1;
-        db.setScore(`${entry}: ${message}`, entry);
+     * Checks a settings declaration for invalid widgets, invalid defaults, duplicate keys and dangling conditions.
+     */
+    static validateDeclaration(settings: SettingsDeclaration): SettingsIssue[] {
+        if (!(settings.length > 0 && 'title' in settings[0])) {
+            return [...SettingsSchema.validateWidgets(settings as readonly SettingsWidget[], ''), ...SettingsSchema.validateConditions(settings)];
+        }
+
+        const issues: SettingsIssue[] = [];
+        const keys = new Set<string>();
+        (settings as readonly SettingsCatagory[]).forEach(category => {
+            const key = category.key ?? category.title;
+            if (keys.has(key)) issues.push({ severity: 'error', path: key, message: 'duplicate category key' });
+            keys.add(key);
+            issues.push(...SettingsSchema.validateWidgets(category.settings, `${key}.`));
+        });
+        issues.push(...SettingsSchema.validateConditions(settings));
+        return issues;
     }
+}
 
-    /**
-    * Displays the ACM home (HUD) to the specified player.
-    * 
-    * @param player - The player to whom the home form will be displayed.
-    */
-    public showHomeForm(player: Player): void {
-        system.sendScriptEvent('acm:hud_home', player.id);
+// Host
+
+/**
+ * Represents a scoreboard participant, as used by the library.
+ */
+export interface AcmScoreboardIdentity {
+    /** The display name of the participant. */
+    readonly displayName: string;
+    /** The unique numeric identifier of the participant. */
+    readonly id: number;
+}
+
+/**
+ * Represents anything that can be passed as a scoreboard participant.
+ */
+export type AcmScoreboardParticipant = AcmScoreboardIdentity | Entity | string;
+
+/**
+ * Represents the subset of a scoreboard objective used by the library.
+ */
+export interface AcmScoreboardObjective {
+    /** The identifier of the objective. */
+    readonly id: string;
+    /** The display name of the objective. */
+    readonly displayName: string;
+    getParticipants(): AcmScoreboardIdentity[];
+    getScore(participant: AcmScoreboardParticipant): number | undefined;
+    hasParticipant(participant: AcmScoreboardParticipant): boolean;
+    removeParticipant(participant: AcmScoreboardParticipant): boolean;
+    setScore(participant: AcmScoreboardParticipant, score: number): void;
+}
+
+/**
+ * Represents the subset of the world scoreboard used by the library.
+ */
+export interface AcmScoreboard {
+    addObjective(objectiveId: string, displayName?: string): AcmScoreboardObjective;
+    getObjective(objectiveId: string): AcmScoreboardObjective | undefined;
+    getObjectives(): AcmScoreboardObjective[];
+    removeObjective(objectiveId: AcmScoreboardObjective | string): boolean;
+}
+
+/**
+ * Represents a received script event, as used by the library.
+ */
+export interface AcmScriptEvent {
+    /** The namespaced identifier of the script event. */
+    readonly id: string;
+    /** The message sent with the script event. */
+    readonly message: string;
+    /** The entity that sent the script event (optional). */
+    readonly sourceEntity?: unknown;
+}
+
+/**
+ * Represents the subset of `world` used by the library.
+ */
+export interface AcmWorld {
+    /** The world scoreboard. */
+    readonly scoreboard: AcmScoreboard;
+    getEntity(id: string): unknown;
+}
+
+/**
+ * Represents the subset of `system` used by the library.
+ */
+export interface AcmSystem {
+    /** The system after-events used by the library. */
+    readonly afterEvents: {
+        readonly scriptEventReceive: {
+            subscribe(callback: (event: AcmScriptEvent) => void): unknown;
+        };
+    };
+    /** The current tick of the system. */
+    readonly currentTick: number;
+    clearRun(runId: number): void;
+    runInterval(callback: () => void, tickInterval?: number): number;
+    runTimeout(callback: () => void, tickDelay?: number): number;
+    sendScriptEvent(id: string, message: string): void;
+}
+
+/**
+ * Represents the `@minecraft/server` runtime the library runs against.
+ * Defaults to the live `world` and `system`; an in-memory host can be injected for tests.
+ */
+export interface AcmHost {
+    /** The world the library reads and writes scoreboard data to. */
+    readonly world: AcmWorld;
+    /** The system the library sends and receives script events through. */
+    readonly system: AcmSystem;
+}
+
+const DEFAULT_HOST: AcmHost = { world, system };
+
+/** How often, in ticks, stored settings are compared against the last known values. */
+const SETTINGS_POLL_INTERVAL = 20;
+
+/**
+ * Represents the state of the handshake with the ACM engine: `uninitialized` until `initAddon`, `waiting` while probing
+ * for the engine, `ready` once it answered, and `engine-missing` if it did not answer in time (it may still answer later).
+ */
+export type AcmLifecycleState = 'uninitialized' | 'waiting' | 'ready' | 'engine-missing';
+
+/**
+ * Represents the options of `AcmLibrary.initAddon`.
+ */
+export interface AcmInitOptions {
+    /** How long, in ticks, to wait for the engine before emitting `OnEngineMissing` (default: 200). */
+    engineTimeout?: number;
+    /**
+     * Decides whether a player is an operator, for extensions with `permission.operator`. `@minecraft/server` 1.18 has no
+     * operator API, so addons decide themselves (e.g. by a tag); without it such extensions are denied to everyone.
+     */
+    isOperator?: (player: Player) => boolean;
+}
+
+/** How often, in ticks, the engine is probed while waiting for the handshake. */
+const ENGINE_PROBE_INTERVAL = 20;
+
+/** How long, in ticks, to wait for the engine by default. */
+const ENGINE_DEFAULT_TIMEOUT = 200;
+
+/** The most calls queued while waiting for the engine; older calls are dropped first. */
+const ENGINE_QUEUE_LIMIT = 100;
+
+/** How long, in ticks, to let other addons answer the handshake before checking dependencies. */
+const DEPENDENCY_CHECK_DELAY = 40;
+
+/** The reserved emitter ids RPC requests and responses are sent under, on the `ACM:SIGNAL.<TARGET>.` channel. */
+const RPC_REQUEST = 'ACM_RPC';
+const RPC_RESPONSE = 'ACM_RPC_RESULT';
+
+/** How long, in ticks, `AcmLibrary.call` waits for a response by default. */
+const RPC_DEFAULT_TIMEOUT = 100;
+
+/** The longest message sent in a single script event; longer signal messages are split into fragments. */
+const SIGNAL_MAX_MESSAGE_LENGTH = 2048;
+
+/** Marks a fragment message: `#frag:<id>:<index>:<count>:<checksum>:<segment>`. JSON messages never start with `#`. */
+const SIGNAL_FRAGMENT_PREFIX = '#frag:';
+
+/** How long, in ticks, the fragments of an incomplete message are kept. */
+const SIGNAL_FRAGMENT_TIMEOUT = 100;
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string, as 8 hex digits.
+ */
+function checksum(text: string): string {
+    let hash: number = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Represents a handler registered with `AcmLibrary.handle`. Receives the call's arguments and the identifier of the calling addon,
+ * and returns (or resolves to) the result sent back to the caller.
+ */
+export type RpcHandler = (args: any, caller: string) => any;
+
+/**
+ * Represents the options of an `AcmLibrary.call`.
+ */
+export interface RpcCallOptions {
+    /** How long, in ticks, to wait for a response (default: 100). */
+    timeout?: number;
+}
+
+/**
+ * Represents a failed RPC call: no response arrived in time (`timeout`), the target has no handler with that name (`no_handler`),
+ * or the handler threw (`remote`, with the remote error's name and message).
+ */
+export class AcmRpcError extends Error {
+    public constructor(
+        /** The reason the call failed. */
+        public readonly code: 'timeout' | 'no_handler' | 'remote',
+        message: string,
+        /** The name of the error thrown by a remote handler, if any. */
+        public readonly remoteName?: string
+    ) {
+        super(message);
+        this.name = 'AcmRpcError';
+    }
+}
+
+interface RpcRequest {
+    id: string;
+    from: string;
+    name: string;
+    args: any;
+}
+
+type RpcResponse =
+    { id: string, ok: true, result: any } |
+    { id: string, ok: false, code: 'no_handler' | 'remote', name: string, message: string };
+
+export class AcmLibrary {
+    public readonly Events: Events;
+    public readonly Fs: FsSys;
+    public readonly Logger: AcmLogger;
+    public addonData: AddonData | undefined = undefined;
+    private responseAdress: string | undefined = undefined;
+    private hasExtensions: boolean = false;
+    private extensions: ExtensionData[] = [];
+    private settingsSnapshot: { [key: string]: any } | undefined = undefined;
+    private declarationIssues: SettingsIssue[] = [];
+    private loadIssues: SettingsIssue[] = [];
+    private settingsWatchRun: number | undefined = undefined;
+    private migrations: SettingsMigration[] = [];
+    private migrationsChecked: boolean = false;
+    private rpcHandlers: Map<string, RpcHandler> = new Map();
+    private pendingCalls: Map<string, { resolve: (result: any) => void, reject: (error: AcmRpcError) => void, timeoutRun: number }> = new Map();
+    private callCount: number = 0;
+    private fragments: Map<string, { parts: string[], received: number, count: number, checksum: string, timeoutRun: number }> = new Map();
+    private lifecycle: AcmLifecycleState = 'uninitialized';
+    private engineTimeout: number = ENGINE_DEFAULT_TIMEOUT;
+    private operatorCheck: ((player: Player) => boolean) | undefined = undefined;
+    private probeRun: number | undefined = undefined;
+    private engineQueue: { call: () => void, needsEngine: boolean }[] = [];
+    private registeredAddons: Map<string, string> = new Map();
+    private extensionHandlers: Map<string, ExtensionHandler> = new Map();
+    private announceRun: number | undefined = undefined;
+    private constructor(private readonly host: AcmHost) {
+        this.Events = Events.create(host.system);
+        this.Fs = FsSys.create(host.world.scoreboard, () => this.localId(), () => host.system.currentTick);
+        this.Logger = AcmLogger.create(host.world.scoreboard, () => this.identifier(), () => host.system.currentTick, () => this.lifecycle === 'uninitialized' || this.lifecycle === 'waiting');
+        host.system.afterEvents.scriptEventReceive.subscribe((event: AcmScriptEvent) => this.extensionListener(event));
+
+    }
+
+    private onWorldReady(): void {
+        if (!this.addonData) return;
+        const wasReady: boolean = this.lifecycle === 'ready';
+        this.lifecycle = 'ready';
+        if (this.probeRun !== undefined) this.host.system.clearRun(this.probeRun);
+        this.probeRun = undefined;
+        // A repeated handshake means the engine reloaded, so it only needs to learn about the addon again.
+        this.announce();
+        if (wasReady) return;
+
+        this.Logger.flush();
+        this.Fs.recover();
+        this.watchSettings();
+        if (this.addonData.description.dependencies?.length) this.host.system.runTimeout(() => this.reportDependencies(), DEPENDENCY_CHECK_DELAY);
+        this.runQueued(this.engineQueue.splice(0));
+        this.Events.OnAddonReady.emit(OnAddonReadyEvent.create(this.addonData));
+    }
+
+    /**
+     * The addon data as sent to the engine, with the registered extensions in display order.
+     */
+    private publishedData(): AddonData | undefined {
+        if (!this.addonData) return undefined;
+        const extensions: ExtensionData[] | undefined = this.hasExtensions ? this.extensions.slice().sort((a, b) => (a.order ?? 0) - (b.order ?? 0)) : undefined;
+        return { ...this.addonData, extensions };
+    }
+
+    /**
+     * Sends the addon data to the engine.
+     */
+    private announce(): void {
+        const addonData: AddonData | undefined = this.publishedData();
+        if (!addonData) return;
+        this.host.system.sendScriptEvent('acm:addon_ready', JSON.stringify(addonData));
+    }
+
+    /**
+     * Announces the addon again on the next tick once ready, so several extension changes are sent together.
+     */
+    private scheduleAnnounce(): void {
+        if (this.lifecycle !== 'ready' || this.announceRun !== undefined) return;
+        this.announceRun = this.host.system.runTimeout(() => {
+            this.announceRun = undefined;
+            this.announce();
+        }, 1);
+    }
+
+    private onExtensionTriggered(eventId: string, message: string): void {
+        const data = this.parseMessage<{ playerId: string, extensionId: string, args?: any, requestId?: string }>(eventId, message);
+        if (!data) return;
+        const extension: ExtensionData | undefined = this.extensions.find(extension => extension.id === data.extensionId);
+        if (!extension) return;
+        const player = this.host.world.getEntity(data.playerId) as Player | undefined;
+        if (!player) return;
+
+        const respond = (result: ExtensionResult): void => {
+            this.host.system.sendScriptEvent('acm:ext_result', JSON.stringify({ addonId: this.identifier(), extensionId: extension.id, playerId: player.id, requestId: data.requestId, ...result }));
+        };
+        const permission: ExtensionPermission | undefined = extension.permission;
+        const permitted: boolean = (!permission?.operator || (this.operatorCheck?.(player) ?? false))
+            && (!permission?.tags?.length || permission.tags.some(tag => player.hasTag(tag)));
+        if (!permitted) {
+            respond({ status: 'denied', message: `You do not have permission to use ${extension.title ?? extension.id}` });
+            return;
+        }
+
+        this.Events.OnExtensionTriggerd.emit(OnExtensionTriggerdEvent.create(extension.id, player, data.args));
+        const handler: ExtensionHandler | undefined = this.extensionHandlers.get(extension.id);
+        if (!handler) return;
+        new Promise<ExtensionResult | string | void>(resolve => resolve(handler(player, data.args))).then(
+            result => respond(typeof result === 'string' ? { status: 'ok', message: result } : result ?? { status: 'ok' }),
+            error => {
+                this.Logger.error(`extension ${extension.id} failed`, { error: error instanceof Error ? error.message : `${error}` });
+                respond({ status: 'error', message: error instanceof Error ? error.message : `${error}` });
+            }
+        );
+    }
+
+    /**
+     * Runs a preset action chosen on the addon page, then reports the outcome to the ACM (HUD).
+     * Only engines that implement `acm:preset_<id>` send these; nothing waits for the `acm:preset_result` answer.
+     */
+    private onPresetAction(eventId: string, message: string): void {
+        const data = this.parseMessage<{ playerId: string, action: 'apply' | 'reset' | 'save' | 'delete', name?: string, category?: string }>(eventId, message);
+        if (!data) return;
+        const respond = (status: 'ok' | 'error', message?: string): void => {
+            this.host.system.sendScriptEvent('acm:preset_result', JSON.stringify({ addonId: this.identifier(), playerId: data.playerId, action: data.action, name: data.name, status, message }));
+        };
+        try {
+            if (data.action === 'reset') this.resetSettings(data.category);
+            else if (data.name === undefined) throw Error(`Preset action ${data.action} needs a name`);
+            else if (data.action === 'apply') this.applyPreset(data.name, data.category);
+            else if (data.action === 'save') this.saveProfile(data.name);
+            else if (data.action === 'delete') {
+                if (!this.deleteProfile(data.name)) throw Error(`Profile ${data.name} does not exist`);
+            }
+            else throw Error(`Unknown preset action ${data.action}`);
+            respond('ok');
+        } catch (error) {
+            respond('error', (error as Error).message);
+        }
+    }
+
+    /**
+     * Records the addon announced by an `acm:addon_ready` handshake.
+     */
+    private onAddonRegistered(eventId: string, message: string): void {
+        const data = this.parseMessage<AddonData>(eventId, message);
+        const description = data?.description;
+        if (!description?.author || !description.packId || typeof description.version !== 'string') return;
+        this.registeredAddons.set(`${description.author}_${description.packId}`.toLowerCase(), description.version);
+    }
+
+    private acceptsVersion(version: string, range: string): boolean {
+        try {
+            return satisfiesRange(version, range);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Reports dependency issues to `OnDependencyIssue` subscribers and to ACM's log.
+     */
+    private reportDependencies(): void {
+        const issues: DependencyIssue[] = this.checkDependencies();
+        if (!issues.length) return;
+        issues.forEach(issue => {
+            const message: string = issue.reason === 'missing'
+                ? `requires ${issue.id}@${issue.range}, which is not loaded`
+                : `requires ${issue.id}@${issue.range}, but version ${issue.version} is loaded`;
+            if (issue.optional) this.Logger.warn(message, { ...issue });
+            else this.Logger.error(message, { ...issue });
+        });
+        this.Events.OnDependencyIssue.emit(OnDependencyIssueEvent.create(issues));
+    }
+
+    /**
+     * Runs a call now if the engine is ready, or queues it until the handshake completes.
+     * Calls that do not need the engine to answer also run once it is reported missing.
+     */
+    private whenReady(call: () => void, needsEngine: boolean = true): void {
+        if (this.lifecycle === 'ready' || (!needsEngine && this.lifecycle === 'engine-missing')) {
+            call();
+            return;
+        }
+        if (this.engineQueue.length >= ENGINE_QUEUE_LIMIT) {
+            this.engineQueue.shift();
+            console.warn(`[ACM] ${this.identifier()} dropped a call queued while waiting for the engine`);
+        }
+        this.engineQueue.push({ call, needsEngine });
+    }
+
+    private runQueued(queued: { call: () => void }[]): void {
+        queued.forEach(({ call }) => {
+            try {
+                call();
+            } catch (error) {
+                console.error(`Error @ACM:${this.identifier()} queued call:`, error);
+            }
+        });
+    }
+
+    private watchSettings(): void {
+        this.settingsSnapshot = this.loadSettingsData();
+        if (this.settingsWatchRun !== undefined) return;
+        this.settingsWatchRun = this.host.system.runInterval(() => this.checkSettingsChanged(undefined, true), SETTINGS_POLL_INTERVAL);
+    }
+
+    private diffSettings(previous: { [key: string]: any }, current: { [key: string]: any }, isCategory: boolean): string[] {
+        const changedKeys: string[] = [];
+        const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+        keys.forEach(key => {
+            if (isCategory) {
+                this.diffSettings(previous[key] ?? {}, current[key] ?? {}, false).forEach(subKey => changedKeys.push(`${key}.${subKey}`));
+            } else if (JSON.stringify(previous[key]) !== JSON.stringify(current[key])) {
+                changedKeys.push(key);
+            }
+        });
+        return changedKeys;
+    }
+
+    private emitSettingsChanged(previous: { [key: string]: any }, current: { [key: string]: any }, player?: Player): void {
+        if (!this.addonData) return;
+        const isCategory = this.addonData.settings !== undefined && this.isSettingsCatagory(this.addonData.settings);
+        const changedKeys = this.diffSettings(previous, current, isCategory);
+        if (changedKeys.length === 0) return;
+
+        const changedCategories = isCategory ? [...new Set(changedKeys.map(key => key.split('.')[0]))] : [];
+        this.Events.OnSettingsChanged.emit(OnSettingsChangedEvent.create(current, player, previous, changedKeys, changedCategories));
+    }
+
+    private checkSettingsChanged(player?: Player, polled: boolean = false): void {
+        if (!this.addonData || !this.settingsSnapshot) return;
+        const previousWorld = this.settingsSnapshot;
+        const previous = player ? this.applyPlayerOverrides(previousWorld, player) : previousWorld;
+        const current = this.loadSettingsData();
+        const playerScoped = SettingsSchema.declared(this.addonData.settings).filter(declared => SettingsSchema.scope(declared) === 'player');
+
+        if (polled) {
+            // The poll can see a HUD save before the event naming its player, which then captures the player-scoped values.
+            playerScoped.forEach(declared => this.setByPath(current, declared, this.getByPath(previousWorld, declared)));
+        } else if (player) {
+            // Player-scoped values saved through the HUD belong to that player, not the world defaults.
+            const captured: { [path: string]: any } = {};
+            playerScoped.forEach(declared => {
+                const value = this.getByPath(current, declared);
+                if (JSON.stringify(value) === JSON.stringify(this.getByPath(previousWorld, declared))) return;
+                captured[declared.path] = value;
+                this.setByPath(current, declared, this.getByPath(previousWorld, declared));
+            });
+            if (Object.keys(captured).length > 0) {
+                this.writeWorldSettings(Object.fromEntries(Object.keys(captured).map(path => [path, this.getByPath(previousWorld, this.getDeclared(path)!)])));
+                this.savePlayerOverrides(player, { ...this.loadPlayerOverrides(player), ...captured });
+            }
+        }
+
+        this.settingsSnapshot = current;
+        this.emitSettingsChanged(previous, player ? this.applyPlayerOverrides(current, player) : current, player);
+    }
+
+    private extensionListener(event: AcmScriptEvent): void {
+        if (event.id === `acm:engine_ready`) {
+            this.onWorldReady(); return; //ACM:SIGNAL.ADDON_ID.EMITTER_ID
+
+        } else if (event.id === 'acm:addon_ready') {
+            this.onAddonRegistered(event.id, event.message);
+
+        } else if (event.id.startsWith('ACM:SIGNAL.')) {
+            const [, a, e] = event.id.split('.');
+            if (!a || !e) return;
+            const message: string | undefined = this.reassemble(event.id, event.message);
+            if (message === undefined) return;
+            if (e === RPC_REQUEST || e === RPC_RESPONSE) {
+                if (!this.addonData || a !== this.localId().toUpperCase()) return;
+                if (e === RPC_REQUEST) this.onRpcRequest(event.id, message);
+                else this.onRpcResponse(event.id, message);
+                return;
+            }
+            if (message === 'void') {
+                this.Events.OnCustomSignalEmitted.emit(OnCustomSignalEmittedEvent.create(a.toLowerCase(), e.toLowerCase()));
+            } else {
+                const data = this.parseMessage(event.id, message);
+                if (data !== undefined) this.Events.OnCustomSignalEmitted.emit(OnCustomSignalEmittedEvent.create(a.toLowerCase(), e.toLowerCase(), data));
+            }
+
+        } else if (this.responseAdress && event.id === `acm:preset_${this.responseAdress}`) {
+            this.onPresetAction(event.id, event.message);
+
+        } else if (this.responseAdress && event.id === `acm:settings_${this.responseAdress}`) {
+            // Only engines that implement it send this; otherwise the poll finds the change, without a player.
+            const data = (event.message ? this.parseMessage(event.id, event.message) : {}) as { playerId?: string } | undefined;
+            if (!data) return;
+            const player = data.playerId ? this.host.world.getEntity(data.playerId) as Player | undefined : undefined;
+            this.checkSettingsChanged(player);
+
+        } else {
+            if (!this.addonData) return;
+            if (!this.hasExtensions || !event.message || !this.responseAdress || event.id !== `acm:ext_${this.responseAdress}`) return;
+            this.onExtensionTriggered(event.id, event.message);
+        }
+    }
+
+    /**
+     * Parses a JSON message, warning instead of throwing if it is malformed.
+     * @returns The parsed message, or undefined if it is malformed (JSON never parses to undefined).
+     */
+    private parseMessage<T = any>(eventId: string, message: string): T | undefined {
+        try {
+            return JSON.parse(message) as T;
+        } catch (error) {
+            console.warn(`[ACM] ${this.identifier()} ignored malformed ${eventId} message:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Splits a signal message longer than a script event allows into fragments.
+     */
+    private sendSignal(eventId: string, message: string): void {
+        if (message.length <= SIGNAL_MAX_MESSAGE_LENGTH) {
+            this.host.system.sendScriptEvent(eventId, message);
+            return;
+        }
+        const id: string = Math.random().toString(36).slice(2, 8);
+        const hash: string = checksum(message);
+        const segmentLength: number = SIGNAL_MAX_MESSAGE_LENGTH - 64;
+        const count: number = Math.ceil(message.length / segmentLength);
+        for (let index = 0; index < count; index++) {
+            const segment: string = message.slice(index * segmentLength, (index + 1) * segmentLength);
+            this.host.system.sendScriptEvent(eventId, `${SIGNAL_FRAGMENT_PREFIX}${id}:${index}:${count}:${hash}:${segment}`);
+        }
+    }
+
+    /**
+     * Collects the fragments of a signal message.
+     * @returns The complete message, or undefined while fragments are missing or if it failed its integrity check.
+     */
+    private reassemble(eventId: string, message: string): string | undefined {
+        if (!message.startsWith(SIGNAL_FRAGMENT_PREFIX)) return message;
+        const header: string[] = message.slice(SIGNAL_FRAGMENT_PREFIX.length).split(':', 4);
+        const [id, indexText, countText, hash] = header;
+        const index: number = Number(indexText), count: number = Number(countText);
+        if (header.length < 4 || !Number.isInteger(index) || !Number.isInteger(count) || index < 0 || index >= count) {
+            console.warn(`[ACM] ${this.identifier()} ignored malformed ${eventId} fragment`);
+            return undefined;
+        }
+
+        const key: string = `${eventId}:${id}`;
+        let entry = this.fragments.get(key);
+        if (!entry) {
+            const timeoutRun: number = this.host.system.runTimeout(() => {
+                this.fragments.delete(key);
+                console.warn(`[ACM] ${this.identifier()} dropped incomplete ${eventId} message`);
+            }, SIGNAL_FRAGMENT_TIMEOUT);
+            entry = { parts: [], received: 0, count, checksum: hash, timeoutRun };
+            this.fragments.set(key, entry);
+        }
+        if (entry.parts[index] === undefined) {
+            entry.parts[index] = message.slice(SIGNAL_FRAGMENT_PREFIX.length + header.join(':').length + 1);
+            entry.received++;
+        }
+        if (entry.received < entry.count) return undefined;
+
+        this.fragments.delete(key);
+        this.host.system.clearRun(entry.timeoutRun);
+        const complete: string = entry.parts.join('');
+        if (checksum(complete) === entry.checksum) return complete;
+        console.warn(`[ACM] ${this.identifier()} dropped corrupted ${eventId} message`);
+        return undefined;
+    }
+
+    private onRpcRequest(eventId: string, message: string): void {
+        const request = this.parseMessage<RpcRequest>(eventId, message);
+        if (typeof request?.id !== 'string' || typeof request.from !== 'string' || typeof request.name !== 'string') return;
+
+        const respond = (response: RpcResponse): void => {
+            this.sendSignal(`ACM:SIGNAL.${request.from.toUpperCase()}.${RPC_RESPONSE}`, JSON.stringify(response));
+        };
+        const handler = this.rpcHandlers.get(request.name);
+        if (!handler) {
+            respond({ id: request.id, ok: false, code: 'no_handler', name: 'AcmRpcError', message: `${this.identifier()} has no handler ${request.name}` });
+            return;
+        }
+        const codec = FsCodecs.structured();
+        const fail = (error: unknown): void => respond({ id: request.id, ok: false, code: 'remote', name: error instanceof Error ? error.name : 'Error', message: error instanceof Error ? error.message : `${error}` });
+        new Promise(resolve => resolve(handler(codec.decode(request.args), request.from)))
+            .then(result => respond({ id: request.id, ok: true, result: codec.encode(result) }), fail)
+            // A result that cannot be sent is reported to the caller instead of leaving it to time out.
+            .catch(error => {
+                try {
+                    fail(error);
+                } catch (failure) {
+                    console.error(`Error @ACM:${this.identifier()} rpc ${request.name}:`, failure);
+                }
+            });
+    }
+
+    private onRpcResponse(eventId: string, message: string): void {
+        const response = this.parseMessage<RpcResponse>(eventId, message);
+        if (typeof response?.id !== 'string') return;
+
+        const pending = this.pendingCalls.get(response.id);
+        if (!pending) return;
+        this.pendingCalls.delete(response.id);
+        this.host.system.clearRun(pending.timeoutRun);
+        if (response.ok) pending.resolve(FsCodecs.structured().decode(response.result));
+        else pending.reject(new AcmRpcError(response.code, response.message, response.code === 'remote' ? response.name : undefined));
+    }
+
+    private identifier(): string {
+        return `${this.addonData?.description.author}_${this.addonData?.description.packId}`;
+    }
+
+    private localId(): string {
+        if (!this.addonData) throw new Error('Addon data not found');
+        return this.identifier();
+    }
+
+    private isSettingsCatagory(settings: SettingsDeclaration): settings is readonly SettingsCatagory[] {
+        return settings.length > 0 && 'title' in settings[0];
+    }
+
+    private getSettingsDatabase(categoryTitle?: string): AcmScoreboardObjective | undefined {
+        const identifier = this.identifier().toUpperCase();
+        const objectiveName = categoryTitle
+            ? `ACM:${identifier}_${categoryTitle.toUpperCase()}`
+            : `ACM:${identifier}`;
+        return this.host.world.scoreboard.getObjective(objectiveName);
+    }
+
+    private getRawSettingsData(db: AcmScoreboardObjective): AcmScoreboardIdentity | undefined {
+        return db.getParticipants().find(participant => db.getScore(participant) === 0);
+    }
+
+    private parseSettingsArray(rawSettingsData: AcmScoreboardIdentity): SettingsWidget[] {
+        return JSON.parse(rawSettingsData.displayName) as SettingsWidget[];
+    }
+
+    private loadPersistedSettings(categoryTitle?: string): SettingsWidget[] {
+        const db = this.getSettingsDatabase(categoryTitle);
+        if (!db) return [];
+
+        const rawSettingsData = this.getRawSettingsData(db);
+        if (!rawSettingsData) return [];
+
+        return this.parseSettingsArray(rawSettingsData);
+    }
+
+    private savePersistedSettings(settings: SettingsWidget[], categoryTitle?: string): void {
+        const identifier = this.identifier().toUpperCase();
+        const objectiveName = categoryTitle ? `ACM:${identifier}_${categoryTitle.toUpperCase()}` : `ACM:${identifier}`;
+        const db = this.getSettingsDatabase(categoryTitle) ?? this.host.world.scoreboard.addObjective(objectiveName);
+
+        db.getParticipants().filter(participant => db.getScore(participant) === 0).forEach(participant => db.removeParticipant(participant));
+        db.setScore(JSON.stringify(settings), 0);
+    }
+
+    private clearPersistedSettings(categoryTitle?: string): void {
+        const db = this.getSettingsDatabase(categoryTitle);
+        if (!db) return;
+        db.getParticipants().filter(participant => db.getScore(participant) === 0).forEach(participant => db.removeParticipant(participant));
+    }
+
+    /**
+     * Gets the upper-cased titles of the categories whose objectives belong to the addon: the declared ones and those named by migrations.
+     * Objectives are not matched by prefix, as another addon's identifier may extend this one's.
+     */
+    private ownedCategoryTitles(): string[] {
+        const settings = this.addonData?.settings;
+        const declared: string[] = settings && this.isSettingsCatagory(settings) ? settings.map(category => category.title) : [];
+        const named: string[] = this.migrations.flatMap(migration => migration.categories ?? []);
+        return [...new Set([...declared, ...named].map(title => title.toUpperCase()))];
+    }
+
+    private loadAllPersistedSettings(): PersistedSettings {
+        const categories: { [title: string]: SettingsWidget[] } = {};
+        this.ownedCategoryTitles().forEach(title => {
+            const persisted = this.loadPersistedSettings(title);
+            if (persisted.length > 0) categories[title] = persisted;
+        });
+        return { root: this.loadPersistedSettings(), categories };
+    }
+
+    private saveAllPersistedSettings(previous: PersistedSettings, settings: PersistedSettings): void {
+        if (settings.root.length > 0) this.savePersistedSettings(settings.root);
+        else this.clearPersistedSettings();
+
+        const owned: string[] = this.ownedCategoryTitles();
+        Object.keys(previous.categories)
+            .filter(title => !(title.toUpperCase() in settings.categories) && !(title in settings.categories))
+            .forEach(title => this.clearPersistedSettings(title));
+        Object.entries(settings.categories).forEach(([title, widgets]) => {
+            if (owned.includes(title.toUpperCase())) this.savePersistedSettings(widgets, title);
+            else console.warn(`[ACM] ${this.identifier()} settings category ${title} is not declared and was not stored`);
+        });
+    }
+
+    private getDeclared(path: string): DeclaredSetting | undefined {
+        return SettingsSchema.declared(this.addonData?.settings).find(declared => declared.path === path);
+    }
+
+    private getByPath(settingsObject: { [key: string]: any }, declared: DeclaredSetting): any {
+        const key = SettingsSchema.key(declared.setting);
+        return declared.category ? settingsObject[declared.category.key ?? declared.category.title]?.[key] : settingsObject[key];
+    }
+
+    private setByPath(settingsObject: { [key: string]: any }, declared: DeclaredSetting, value: any): void {
+        const key = SettingsSchema.key(declared.setting);
+        if (!declared.category) {
+            settingsObject[key] = value;
+            return;
+        }
+        const categoryKey = declared.category.key ?? declared.category.title;
+        settingsObject[categoryKey] = { ...settingsObject[categoryKey], [key]: value };
+    }
+
+    private writeWorldSettings(values: { [path: string]: any }): void {
+        const byCategory = new Map<string | undefined, DeclaredSetting[]>();
+        Object.keys(values).forEach(path => {
+            const declared = this.getDeclared(path);
+            if (!declared) return;
+            const title = declared.category?.title;
+            byCategory.set(title, [...(byCategory.get(title) ?? []), declared]);
+        });
+
+        byCategory.forEach((entries, title) => {
+            const persisted = this.loadPersistedSettings(title);
+            entries.forEach(declared => {
+                const existing = this.findPersistedSetting(declared.setting, persisted);
+                const updated = SettingsSchema.withValue((existing ?? declared.setting) as SettingsValueWidget, values[declared.path]);
+                if (existing) persisted[persisted.indexOf(existing)] = updated;
+                else persisted.push(updated);
+            });
+            this.savePersistedSettings(persisted, title);
+        });
+    }
+
+    /**
+     * Gets the directory of player overrides; its objective is only created when writing, so reads leave the world unchanged.
+     * @param create Whether to create the objective if it does not exist.
+     */
+    private getPlayerDirectory(create: boolean = false): Directory | undefined {
+        const objectiveName = `ACM:PLAYERS.${this.localId().toUpperCase()}`;
+        const objective = this.host.world.scoreboard.getObjective(objectiveName) ?? (create ? this.host.world.scoreboard.addObjective(objectiveName) : undefined);
+        return objective ? Directory.create(objective, this.localId().toUpperCase()) : undefined;
+    }
+
+    private loadPlayerOverrides(player: Player): { [path: string]: any } {
+        const directory = this.getPlayerDirectory();
+        return directory?.exists(player.id) ? directory.read(player.id) : {};
+    }
+
+    private savePlayerOverrides(player: Player, overrides: { [path: string]: any }): void {
+        if (Object.keys(overrides).length > 0) {
+            this.getPlayerDirectory(true)!.writeRaw(player.id, JSON.stringify(overrides));
+            return;
+        }
+        const directory = this.getPlayerDirectory();
+        if (directory?.exists(player.id)) directory.delete(player.id);
+    }
+
+    private applyPlayerOverrides(settingsObject: { [key: string]: any }, player: Player): { [key: string]: any } {
+        const merged: { [key: string]: any } = JSON.parse(JSON.stringify(settingsObject));
+        const overrides = this.loadPlayerOverrides(player);
+        SettingsSchema.declared(this.addonData?.settings)
+            .filter(declared => SettingsSchema.scope(declared) === 'player' && declared.path in overrides)
+            .forEach(declared => {
+                const value = overrides[declared.path];
+                const violation = SettingsSchema.validateValue(declared.setting, value);
+                if (!violation) this.setByPath(merged, declared, value);
+                else this.loadIssues.push({ severity: 'warning', path: declared.path, message: `player value rejected (${violation}); using world value`, value });
+            });
+        return merged;
+    }
+
+    /**
+     * Gets the addon's meta directory; its objective is only created when writing, so reads leave the world unchanged.
+     * @param create Whether to create the objective if it does not exist.
+     */
+    private getMetaDirectory(create: boolean = false): Directory | undefined {
+        const objectiveName = `${META_DIR}.${this.localId().toUpperCase()}`;
+        const objective = this.host.world.scoreboard.getObjective(objectiveName) ?? (create ? this.host.world.scoreboard.addObjective(objectiveName) : undefined);
+        return objective ? Directory.create(objective, this.localId().toUpperCase()) : undefined;
+    }
+
+
+    /**
+     * Upgrades the stored settings through the registered migrations. Runs once the engine handshake is over,
+     * so the migrations registered at startup are all known; settings stored without a version predate every migration.
+     * @param force Whether to run before the handshake is over, as exports and imports must see migrated settings.
+     */
+    private runMigrations(force: boolean = false): void {
+        if (this.migrationsChecked || !this.addonData) return;
+        if (!force && (this.lifecycle === 'uninitialized' || this.lifecycle === 'waiting')) return;
+        this.migrationsChecked = true;
+
+        const meta = this.getMetaDirectory();
+        const target = this.addonData.description.version;
+        const previous = this.loadAllPersistedSettings();
+        const hasSettings = previous.root.length > 0 || Object.keys(previous.categories).length > 0;
+        const oldest: string | undefined = [...this.migrations].sort((a, b) => compareVersions(a.from, b.from))[0]?.from;
+        const stored: string | undefined = meta?.exists(SETTINGS_VERSION_FILE) ? meta.read(SETTINGS_VERSION_FILE) : hasSettings ? oldest : undefined;
+        if (stored === undefined || compareVersions(stored, target) >= 0) {
+            // Without migrations there is nothing to skip later, so a world that only reads is left unmarked.
+            if (stored !== target && (stored !== undefined || this.migrations.length > 0)) this.getMetaDirectory(true)!.writeRaw(SETTINGS_VERSION_FILE, JSON.stringify(target));
+            return;
+        }
+
+        let settings: PersistedSettings;
+        try {
+            settings = this.migrateSettings(previous, stored, target);
+        } catch (error) {
+            console.warn(`[ACM] ${this.identifier()} stored settings left unchanged:`, error);
+            return;
+        }
+
+        this.saveAllPersistedSettings(previous, settings);
+        this.getMetaDirectory(true)!.writeRaw(SETTINGS_VERSION_FILE, JSON.stringify(target));
+    }
+
+    private migrateSettings(previous: PersistedSettings, from: string, to: string): PersistedSettings {
+        let settings: PersistedSettings = JSON.parse(JSON.stringify(previous));
+        let current = from;
+        const pending = [...this.migrations].sort((a, b) => compareVersions(a.from, b.from) || compareVersions(a.to, b.to));
+        try {
+            for (const migration of pending) {
+                if (compareVersions(migration.from, current) > 0 || compareVersions(migration.to, current) <= 0 || compareVersions(migration.to, to) > 0) continue;
+                settings = migration.migrate(settings) ?? settings;
+                current = migration.to;
+            }
+        } catch (error) {
+            throw Error(`settings migration from ${current} failed: ${error}`);
+        }
+        return settings;
+    }
+
+    private parseBackup(snapshot: string, version: string): AcmBackup {
+        const fail = (message: string): never => { throw Error(`Invalid backup: ${message}`); };
+        const isRecord = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+        const isWidgets = (value: any): boolean => Array.isArray(value) && value.every(widget => isRecord(widget) && (typeof widget.label === 'string' || widget.type === 'divider'));
+        let data: any;
+        try {
+            data = JSON.parse(snapshot);
+        } catch {
+            return fail('not valid JSON');
+        }
+
+        if (!isRecord(data) || data.format !== 'acm-backup') fail('not an ACM backup');
+        if (typeof data.formatVersion !== 'number' || data.formatVersion > BACKUP_FORMAT_VERSION) fail(`unsupported format version ${data.formatVersion}`);
+        if (data.addonId !== this.localId().toUpperCase()) fail(`belongs to addon ${data.addonId}`);
+        if (typeof data.addonVersion !== 'string') fail('missing addon version');
+        if (compareVersions(data.addonVersion, version) > 0) fail(`made by addon version ${data.addonVersion}, newer than ${version}`);
+        if (!isRecord(data.settings) || !isWidgets(data.settings.root) || !isRecord(data.settings.categories) || !Object.values(data.settings.categories).every(isWidgets)) fail('malformed settings');
+        if (!isRecord(data.players) || !Object.values(data.players).every(isRecord)) fail('malformed player settings');
+        if (data.profiles !== undefined && (!isRecord(data.profiles) || !Object.values(data.profiles).every(isRecord))) fail('malformed profiles');
+        if (!isRecord(data.directories)) fail('malformed directories');
+        Object.entries(data.directories).forEach(([path, directory]: [string, any]) => {
+            if (!isRecord(directory) || !isRecord(directory.files) || !isRecord(directory.grants)) fail(`malformed directory ${path}`);
+            try {
+                if (splitPath(path).length === 0) throw Error('Directory path must not be empty');
+                Object.keys(directory.files).forEach(validateFileName);
+            } catch (error) {
+                fail((error as Error).message);
+            }
+            if (!Object.values(directory.grants).every(access => access === 'read' || access === 'write')) fail(`malformed grants of directory ${path}`);
+        });
+        return data as AcmBackup;
+    }
+
+    private findPersistedSetting(setting: SettingsValueWidget, persisted: SettingsWidget[]): SettingsWidget | undefined {
+        return (setting.key !== undefined ? persisted.find(p => p.key === setting.key) : undefined)
+            ?? persisted.find(p => p.label === setting.label);
+    }
+
+    private processSetting(setting: SettingsWidget): any {
+        if (SettingsSchema.isDisplay(setting)) return undefined;
+        if ('options' in setting && !('type' in setting) && setting.valueIndex !== undefined) {
+            setting.value = setting.options[setting.valueIndex] || undefined;
+        }
+        return setting.value !== undefined ? setting.value : undefined;
+    }
+
+    private resolveSetting(setting: SettingsValueWidget, path: string, persisted?: SettingsWidget): any {
+        const fallback = SettingsSchema.defaultValue(setting);
+        if (!persisted) return fallback;
+
+        const value = this.processSetting(persisted);
+        if (value === undefined) return fallback;
+        const violation = SettingsSchema.validateValue(setting, value);
+        if (!violation) return SettingsSchema.loadedValue(setting, value);
+
+        this.loadIssues.push({ severity: 'warning', path, message: `stored value rejected (${violation}); replaced by default`, value });
+        return fallback;
+    }
+
+    private processSettings(settings: readonly SettingsWidget[], category?: SettingsCatagory): { [key: string]: any } {
+        const persisted = this.loadPersistedSettings(category?.title);
+        const prefix = category ? `${category.key ?? category.title}.` : '';
+        const settingsObject: { [key: string]: any } = {};
+
+        settings.forEach(setting => {
+            if (SettingsSchema.isDisplay(setting)) return;
+            const key = SettingsSchema.key(setting);
+            settingsObject[key] = this.resolveSetting(setting, `${prefix}${key}`, this.findPersistedSetting(setting, persisted));
+        });
+
+        return settingsObject;
+    }
+
+    /**
+    * Creates a new library instance bound to the given host.
+    * 
+    * @param host - The runtime to read from and send events through (default: the live `world` and `system`).
+    * @returns A new `AcmLibrary` instance.
+    */
+    public static create(host: AcmHost = DEFAULT_HOST): AcmLibrary {
+        return new AcmLibrary(host);
+    }
+
+    /**
+    * Initializes the addon with the provided data.
+    * 
+    * Problems in the settings declaration are reported through `getSettingsIssues` rather than thrown.
+    * 
+    * @param addonData - The data associated with the addon, including metadata and settings.
+    * @param options - The handshake options, such as how long to wait for the engine.
+    * @throws Error if the addon is already initialized.
+    */
+    public initAddon(addonData: AddonData, options: AcmInitOptions = {}): void {
+        if (this.addonData) throw Error("Addon already initialized");
+        this.addonData = addonData;
+        this.responseAdress = this.identifier();
+        this.extensions = [...(addonData.extensions ?? [])];
+        if (addonData.extensions) this.hasExtensions = true;
+        this.declarationIssues = addonData.settings ? SettingsSchema.validateDeclaration(addonData.settings) : [];
+        this.declarationIssues.push(...this.validatePresets(addonData.presets ?? []));
+        this.declarationIssues.forEach(issue => console.warn(`[ACM] ${this.identifier()} settings ${issue.severity} @${issue.path}: ${issue.message}`));
+        (addonData.description.dependencies ?? []).map(parseDependency).forEach(({ id, version }) => {
+            try {
+                satisfiesRange('0.0.0', version);
+            } catch (error) {
+                console.warn(`[ACM] ${this.identifier()} dependency ${id}: ${(error as Error).message}`);
+            }
+        });
+        this.engineTimeout = options.engineTimeout ?? ENGINE_DEFAULT_TIMEOUT;
+        this.operatorCheck = options.isOperator;
+        if (!this.operatorCheck) (addonData.extensions ?? []).filter(extension => extension.permission?.operator).forEach(extension => {
+            console.warn(`[ACM] ${this.identifier()} extension ${extension.id} requires an operator, but no isOperator option was given; it is denied to everyone`);
+        });
+        this.probeEngine();
+    }
+
+    /**
+    * The state of the handshake with the ACM engine.
+    */
+    public get state(): AcmLifecycleState {
+        return this.lifecycle;
+    }
+
+    /**
+    * Checks whether an addon has announced itself to ACM, optionally with a version in a semver range.
+    * Addons are learned from their handshakes, so this is reliable a short while after `OnAddonReady`.
+    * 
+    * @param id - The identifier of the addon, as `author_packId`.
+    * @param range - The semver range of accepted versions, e.g. `^1.2.0` (default: any version).
+    * @returns True if the addon is loaded with an accepted version.
+    * @throws Error if the range is malformed.
+    */
+    public isAddonLoaded(id: string, range: string = '*'): boolean {
+        const version: string | undefined = this.registeredAddons.get(id.toLowerCase());
+        return version !== undefined && satisfiesRange(version, range);
+    }
+
+    /**
+    * Checks the declared dependencies against the addons that have announced themselves to ACM so far.
+    * Optional dependencies are only reported when incompatible. Issues are reported automatically shortly after the handshake.
+    * 
+    * @returns The missing and incompatible dependencies; a malformed range accepts no version.
+    * @throws Error if the addon is not initialized.
+    */
+    public checkDependencies(): DependencyIssue[] {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        const issues: DependencyIssue[] = [];
+        (this.addonData.description.dependencies ?? []).map(parseDependency).forEach(({ id, version: range, optional }) => {
+            const version: string | undefined = this.registeredAddons.get(id);
+            if (version === undefined) {
+                if (!optional) issues.push({ id, range, reason: 'missing', optional });
+            } else if (!this.acceptsVersion(version, range)) {
+                issues.push({ id, range, reason: 'incompatible', version, optional });
+            }
+        });
+        return issues;
+    }
+
+    /**
+    * Asks the ACM engine to repeat its handshake, probing until it answers or the engine timeout passes,
+    * after which `OnEngineMissing` is emitted. Called by `initAddon`; call it again to retry after the engine went missing.
+    * Engines that do not implement `acm:engine_probe` never answer, so the addon only sees their start-up handshake.
+    * 
+    * @throws Error if the addon is not initialized.
+    */
+    public probeEngine(): void {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        if (this.lifecycle === 'ready') return;
+        this.lifecycle = 'waiting';
+        if (this.probeRun !== undefined) this.host.system.clearRun(this.probeRun);
+
+        const started: number = this.host.system.currentTick;
+        this.probeRun = this.host.system.runInterval(() => {
+            const waited: number = this.host.system.currentTick - started;
+            if (waited < this.engineTimeout) {
+                this.host.system.sendScriptEvent('acm:engine_probe', this.identifier());
+                return;
+            }
+            if (this.probeRun !== undefined) this.host.system.clearRun(this.probeRun);
+            this.probeRun = undefined;
+            this.lifecycle = 'engine-missing';
+            this.Logger.flush();
+            const independent = this.engineQueue.filter(queued => !queued.needsEngine);
+            this.engineQueue = this.engineQueue.filter(queued => queued.needsEngine);
+            this.runQueued(independent);
+            this.Events.OnEngineMissing.emit(OnEngineMissingEvent.create(waited));
+        }, Math.max(1, Math.min(ENGINE_PROBE_INTERVAL, this.engineTimeout)));
+    }
+
+    /**
+    * Gets the problems found in the settings declaration at `initAddon`
+    * and in the stored values during the most recent `loadSettingsData`.
+    * 
+    * @returns The list of settings issues, declaration issues first.
+    */
+    public getSettingsIssues(): SettingsIssue[] {
+        return [...this.declarationIssues, ...this.loadIssues];
+    }
+
+    /**
+    * Registers a migration for stored settings. Migrations run once, in version order, on the first
+    * settings load after the addon's `description.version` moves past the last migrated version.
+    * Register migrations before the engine handshake completes, e.g. right after `initAddon`: stored settings are
+    * migrated once it does, and settings stored before migrations were used are migrated from the oldest registered version.
+    * Only declared categories are loaded, so a migration reading a renamed or removed category must name its old title.
+    * 
+    * @param from - The addon version the migration upgrades from.
+    * @param to - The addon version the migration upgrades to.
+    * @param migrate - Rewrites the stored settings; may mutate and return nothing, or return a replacement.
+    * @param categories - The titles of categories no longer declared whose stored settings the migration reads (optional).
+    * @throws Error if `to` is not newer than `from`.
+    */
+    public registerMigration(from: string, to: string, migrate: (settings: PersistedSettings) => PersistedSettings | void, categories: string[] = []): void {
+        if (compareVersions(from, to) >= 0) throw Error(`Migration target ${to} must be newer than ${from}`);
+        this.migrations.push({ from, to, migrate, categories });
+        this.migrationsChecked = false;
+    }
+
+    /**
+    * Exports the addon's settings, player overrides, profiles and directories as a portable backup.
+    * 
+    * @returns The backup, serialized as JSON (see `AcmBackup` for the format).
+    * @throws Error if the addon is not initialized.
+    */
+    public exportData(): string {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        this.runMigrations(true);
+
+        const players: AcmBackup['players'] = {};
+        const playerDirectory = this.getPlayerDirectory();
+        playerDirectory?.list().forEach(playerId => players[playerId] = playerDirectory.read(playerId));
+
+        const directories: AcmBackup['directories'] = {};
+        this.Fs.list('', { recursive: true, type: 'directory' }).forEach(path => {
+            const directory = this.Fs.Dir.get(path);
+            if (!directory) return;
+            const files: { [fileName: string]: any } = {};
+            directory.list().forEach(fileName => files[fileName] = directory.read(fileName));
+            directories[path] = { files, grants: directory.getGrants() };
+        });
+
+        const backup: AcmBackup = {
+            format: 'acm-backup',
+            formatVersion: BACKUP_FORMAT_VERSION,
+            addonId: this.localId().toUpperCase(),
+            addonVersion: this.addonData.description.version,
+            settings: this.loadAllPersistedSettings(),
+            players,
+            directories,
+            profiles: this.loadProfiles()
+        };
+        return JSON.stringify(backup);
+    }
+
+    /**
+    * Restores the addon's data from a backup made by `exportData`. The backup is validated before anything is written,
+    * and files are restored in a single transaction.
+    * 
+    * @param snapshot - The backup, serialized as JSON.
+    * @param conflict - How data present both in the world and in the backup is resolved (default: `merge`).
+    * @returns The number of entries written and skipped.
+    * @throws Error if the addon is not initialized, the backup is invalid, or its settings fail to migrate.
+    */
+    public importData(snapshot: string, conflict: BackupConflict = 'merge'): BackupImportResult {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        const backup = this.parseBackup(snapshot, this.addonData.description.version);
+        this.runMigrations(true);
+        const settings = this.migrateSettings(backup.settings, backup.addonVersion, this.addonData.description.version);
+
+        const replace = conflict === 'replace';
+        const result: BackupImportResult = { written: 0, skipped: 0 };
+        const take = (exists: boolean): boolean => {
+            if (exists && conflict === 'skip') {
+                result.skipped++;
+                return false;
+            }
+            result.written++;
+            return true;
+        };
+
+        const existing = this.Fs.list('', { recursive: true, type: 'directory' }).filter(path => this.Fs.Dir.isValid(path));
+        const restored = Object.keys(backup.directories).map(path => splitPath(path).join('/').toLowerCase());
+        Object.keys(backup.directories).forEach(path => this.Fs.Dir.new(path, true, true));
+        try {
+            this.Fs.transaction(tx => {
+                Object.entries(backup.directories).forEach(([path, { files }]) => {
+                    const directory = this.Fs.Dir.get(path)!;
+                    if (replace) directory.list().filter(fileName => !(fileName in files)).forEach(fileName => tx.delete(directory, fileName));
+                    Object.entries(files).forEach(([fileName, content]) => {
+                        if (take(!replace && directory.exists(fileName))) tx.write(directory, fileName, content);
+                    });
+                });
+                if (replace) existing.filter(path => !restored.includes(path)).forEach(path => {
+                    const directory = this.Fs.Dir.get(path)!;
+                    directory.list().forEach(fileName => tx.delete(directory, fileName));
+                });
+            });
+        } catch (error) {
+            // The transaction left no files, so only the directories created for it remain to remove.
+            this.Fs.list('', { recursive: true, type: 'directory' })
+                .filter(path => !existing.includes(path) && this.Fs.Dir.isValid(path))
+                .sort((a, b) => b.length - a.length)
+                .forEach(path => { if (this.Fs.Dir.isValid(path)) this.Fs.Dir.delete(path, true); });
+            throw error;
+        }
+
+        Object.entries(backup.directories).forEach(([path, { grants }]) => {
+            const directory = this.Fs.Dir.get(path)!;
+            const current = directory.getGrants();
+            if (replace) Object.keys(current).filter(addonId => !(addonId in grants)).forEach(addonId => directory.revoke(addonId));
+            Object.entries(grants).forEach(([addonId, access]) => {
+                if (!(addonId in current) || conflict !== 'skip') directory.grant(addonId, access);
+            });
+        });
+        if (replace) existing
+            .filter(path => !restored.some(kept => kept === path || kept.startsWith(`${path}/`)))
+            .sort((a, b) => b.length - a.length)
+            .forEach(path => { if (this.Fs.Dir.isValid(path)) this.Fs.Dir.delete(path, true); });
+
+        const current = this.loadAllPersistedSettings();
+        const mergeWidgets = (persisted: SettingsWidget[], incoming: SettingsWidget[]): SettingsWidget[] => {
+            const merged = replace ? [] : [...persisted];
+            incoming.forEach(widget => {
+                if (SettingsSchema.isDisplay(widget)) return;
+                const existingWidget = this.findPersistedSetting(widget, merged);
+                if (!take(existingWidget !== undefined)) return;
+                if (existingWidget) merged[merged.indexOf(existingWidget)] = widget;
+                else merged.push(widget);
+            });
+            return merged;
+        };
+        const categories: { [title: string]: SettingsWidget[] } = replace ? {} : { ...current.categories };
+        Object.entries(settings.categories).forEach(([title, widgets]) => {
+            categories[title.toUpperCase()] = mergeWidgets(current.categories[title.toUpperCase()] ?? [], widgets);
+        });
+        this.saveAllPersistedSettings(current, { root: mergeWidgets(current.root, settings.root), categories });
+
+        const playerDirectory = this.getPlayerDirectory(Object.keys(backup.players).length > 0);
+        if (replace) playerDirectory?.list().filter(playerId => !(playerId in backup.players)).forEach(playerId => playerDirectory.delete(playerId));
+        if (playerDirectory) Object.entries(backup.players).forEach(([playerId, overrides]) => {
+            const currentOverrides: { [path: string]: any } = !replace && playerDirectory.exists(playerId) ? playerDirectory.read(playerId) : {};
+            const merged = { ...currentOverrides };
+            Object.entries(overrides).forEach(([path, value]) => {
+                if (take(path in currentOverrides)) merged[path] = value;
+            });
+            playerDirectory.writeRaw(playerId, JSON.stringify(merged));
+        });
+
+        if (backup.profiles || replace) {
+            const currentProfiles = this.loadProfiles();
+            const profiles = replace ? {} : { ...currentProfiles };
+            Object.entries(backup.profiles ?? {}).forEach(([name, values]) => {
+                if (this.addonData!.presets?.some(preset => preset.name === name)) {
+                    console.warn(`[ACM] ${this.identifier()} profile ${name} was not restored, a declared preset has its name`);
+                    return;
+                }
+                if (take(!replace && name in currentProfiles)) profiles[name] = values;
+            });
+            this.storeProfiles(profiles);
+        }
+        return result;
+    }
+
+    /**
+    * Logs an info message to ACM's interal logger; shorthand for `Logger.info`.
+    * Messages logged while waiting for the engine are held until it answers, or printed to the console if it is missing.
+    * 
+    * @param message - The message to log.
+    */
+    public log(message: string): void {
+        this.Logger.info(message);
+    }
+
+    /**
+    * Displays the ACM home (HUD) to the specified player.
+    * 
+    * @param player - The player to whom the home form will be displayed.
+    */
+    public showHomeForm(player: Player): void {
+        this.host.system.sendScriptEvent('acm:hud_home', player.id);
+    }
+
+    /**
+    * Displays your addon's page in the ACM (HUD) to the specified player, including the presets and profiles
+    * the player can apply, reset to or save. Calls made before the engine is ready are queued until it is.
+    * 
+    * @param player - The player to whom the addon form will be displayed.
+    */
+    public showAddonForm(player: Player): void {
+        this.whenReady(() => this.host.system.sendScriptEvent('acm:hud_addon', `${JSON.stringify({ playerId: player.id, addonData: this.getPlayerAddonData(player), presets: this.listPresets() })}`));
+    }
+
+    /**
+     * Gets the addon data as shown to a player: with the player's values of player-scoped settings, and with
+     * `visible` and `enabled` resolved for widgets that declare `visibleWhen` or `enabledWhen`.
+     */
+    private getPlayerAddonData(player: Player): AddonData | undefined {
+        if (!this.addonData?.settings) return this.publishedData();
+        const allDeclared = SettingsSchema.declared(this.addonData.settings);
+        const declared = allDeclared.filter(entry => SettingsSchema.scope(entry) === 'player');
+        const widgets: readonly SettingsWidget[] = this.isSettingsCatagory(this.addonData.settings)
+            ? this.addonData.settings.flatMap(category => category.settings)
+            : this.addonData.settings;
+        const isConditional = (setting: SettingsWidget) => setting.visibleWhen !== undefined || setting.enabledWhen !== undefined;
+        if (declared.length === 0 && !widgets.some(isConditional)) return this.publishedData();
+
+        const values = this.loadSettingsData(player);
+        const meets = (condition: SettingsCondition | undefined, category?: SettingsCatagory): boolean => {
+            if (!condition) return true;
+            const target = allDeclared.find(d => d.path === SettingsSchema.conditionPath(condition, category));
+            return target !== undefined && SettingsSchema.meetsCondition(condition, this.getByPath(values, target));
+        };
+        const withValue = (setting: SettingsWidget, category?: SettingsCatagory): SettingsWidget => {
+            const entry = declared.find(d => d.setting === setting && d.category === category);
+            const shown = entry ? SettingsSchema.withValue(entry.setting, this.getByPath(values, entry)) : setting;
+            if (!isConditional(setting)) return shown;
+            return Object.assign({}, shown, { visible: meets(setting.visibleWhen, category), enabled: meets(setting.enabledWhen, category) });
+        };
+        const settings = this.isSettingsCatagory(this.addonData.settings)
+            ? this.addonData.settings.map(category => ({ ...category, settings: category.settings.map(setting => withValue(setting, category)) }))
+            : this.addonData.settings.map(setting => withValue(setting));
+        return { ...this.publishedData()!, settings };
+    }
+
+    /**
+    * Loads the settings data for your addon.
+    * Values are keyed by each widget's `key` (or label) and each category's `key` (or title);
+    * declared defaults fill any value that is missing or invalid in storage, and replaced values are
+    * reported through `getSettingsIssues`.
+    * 
+    * @typeParam A - The addon data type (e.g. `typeof addon` from `defineAddon`) used to type the result.
+    * @param player - The player whose player-scoped values are merged over the world values (optional).
+    * @returns An object containing the settings data, organized by category or as a flat structure.
+    */
+    public loadSettingsData<A extends AddonData = AddonData>(player?: Player): SettingsData<A['settings']> {
+        this.runMigrations();
+        this.loadIssues = [];
+        const settingsObject: { [key: string]: any } = {};
+        const settings: SettingsDeclaration | undefined = this.addonData?.settings;
+        if (!settings) return settingsObject as SettingsData<A['settings']>;
+
+        if (this.isSettingsCatagory(settings)) {
+            settings.forEach(category => {
+                settingsObject[category.key ?? category.title] = this.processSettings(category.settings, category);
+            });
+        } else {
+            Object.assign(settingsObject, this.processSettings(settings));
+        }
+
+        return (player ? this.applyPlayerOverrides(settingsObject, player) : settingsObject) as SettingsData<A['settings']>;
+    }
+
+    /**
+    * Stores the world value of a setting the way the ACM HUD does, then refreshes open ACM forms (with engines that
+    * implement `acm:settings_refresh`) and notifies `OnSettingsChanged` subscribers. Use `setPlayerSetting` for one player's value of a player-scoped setting.
+    * 
+    * @param path - The settings path, as `key` or `category.key`.
+    * @param value - The new value.
+    * @throws Error if the setting is not declared or the value is invalid.
+    */
+    public setSetting(path: string, value: any): void {
+        this.writeSettings({ [path]: value });
+    }
+
+    /**
+    * Stores several world values at once, like `setSetting`; nothing is stored if any value is invalid.
+    * 
+    * @typeParam A - The addon data type (e.g. `typeof addon` from `defineAddon`) used to type the update.
+    * @param partial - The values to change, shaped like `loadSettingsData()` (categories may be partial too).
+    * @throws Error if a setting is not declared or a value is invalid.
+    */
+    public updateSettings<A extends AddonData = AddonData>(partial: SettingsUpdate<A['settings']>): void {
+        this.writeSettings(this.toSettingsPaths(partial));
+    }
+
+    /**
+    * Lists the presets declared in `AddonData` followed by the profiles saved with `saveProfile`.
+    * 
+    * @returns The presets and profiles, by name.
+    */
+    public listPresets(): SettingsPresetInfo[] {
+        const declared = (this.addonData?.presets ?? []).map(preset => ({ name: preset.name, description: preset.description, custom: false }));
+        const profiles = this.addonData ? Object.keys(this.loadProfiles()).map(name => ({ name, custom: true })) : [];
+        return [...declared, ...profiles];
+    }
+
+    /**
+    * Applies a preset declared in `AddonData` or a saved profile, like `updateSettings`.
+    * Values of settings no longer declared are skipped.
+    * 
+    * @param name - The name of the preset or profile.
+    * @param category - The key (or title) of the only category to apply (optional, defaults to every category).
+    * @throws Error if the preset does not exist or holds an invalid value.
+    */
+    public applyPreset(name: string, category?: string): void {
+        const preset: SettingsPreset | undefined = this.addonData?.presets?.find(preset => preset.name === name);
+        const profile: { [path: string]: any } | undefined = preset ? undefined : this.loadProfiles()[name];
+        if (!preset && !profile) throw Error(`Preset ${name} does not exist`);
+        const values = preset ? this.toSettingsPaths(preset.values) : profile!;
+        this.writeSettings(this.filterSettingsPaths(values, category));
+    }
+
+    /**
+    * Restores the values declared in `AddonData.settings`, like `updateSettings`.
+    * 
+    * @param category - The key (or title) of the only category to reset (optional, defaults to every category).
+    */
+    public resetSettings(category?: string): void {
+        const defaults = Object.fromEntries(SettingsSchema.declared(this.addonData?.settings).map(declared => [declared.path, SettingsSchema.defaultValue(declared.setting)]));
+        this.writeSettings(this.filterSettingsPaths(defaults, category));
+    }
+
+    /**
+    * Saves the current world values as a profile that can be applied with `applyPreset`, replacing any profile with that name.
+    * 
+    * @param name - The name of the profile.
+    * @throws Error if the name is empty or taken by a declared preset.
+    */
+    public saveProfile(name: string): void {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        if (!name.trim()) throw Error("Profile name must not be empty");
+        if (this.addonData.presets?.some(preset => preset.name === name)) throw Error(`Profile ${name} would replace the declared preset ${name}`);
+        const current = this.loadSettingsData();
+        const values = Object.fromEntries(SettingsSchema.declared(this.addonData.settings).map(declared => [declared.path, this.getByPath(current, declared)]));
+        this.getMetaDirectory(true)!.writeRaw(PROFILES_FILE, JSON.stringify({ ...this.loadProfiles(), [name]: values }));
+    }
+
+    /**
+    * Deletes a profile saved with `saveProfile`.
+    * 
+    * @param name - The name of the profile.
+    * @returns True if the profile existed.
+    */
+    public deleteProfile(name: string): boolean {
+        const profiles = this.loadProfiles();
+        if (!(name in profiles)) return false;
+        delete profiles[name];
+        this.storeProfiles(profiles);
+        return true;
+    }
+
+    private loadProfiles(): { [name: string]: { [path: string]: any } } {
+        const meta = this.getMetaDirectory();
+        return meta?.exists(PROFILES_FILE) ? meta.read(PROFILES_FILE) : {};
+    }
+
+    private storeProfiles(profiles: { [name: string]: { [path: string]: any } }): void {
+        if (Object.keys(profiles).length > 0) {
+            this.getMetaDirectory(true)!.writeRaw(PROFILES_FILE, JSON.stringify(profiles));
+            return;
+        }
+        const meta = this.getMetaDirectory();
+        if (meta?.exists(PROFILES_FILE)) meta.delete(PROFILES_FILE);
+    }
+
+    /**
+     * Converts values shaped like `loadSettingsData()` to values keyed by settings path.
+     */
+    private toSettingsPaths(partial: { [key: string]: any }): { [path: string]: any } {
+        const isCategory = this.addonData?.settings !== undefined && this.isSettingsCatagory(this.addonData.settings);
+        const values: { [path: string]: any } = {};
+        Object.entries(partial).forEach(([key, value]) => {
+            if (!isCategory) values[key] = value;
+            else if (typeof value === 'object' && value !== null && !Array.isArray(value)) Object.entries(value).forEach(([subKey, subValue]) => values[`${key}.${subKey}`] = subValue);
+            else throw Error(`Settings category ${key} must be an object`);
+        });
+        return values;
+    }
+
+    /**
+     * Keeps the values of declared settings, optionally only those of one category.
+     */
+    private filterSettingsPaths(values: { [path: string]: any }, category?: string): { [path: string]: any } {
+        const categories = this.addonData?.settings && this.isSettingsCatagory(this.addonData.settings) ? this.addonData.settings : [];
+        if (category !== undefined && !categories.some(c => c.key === category || c.title === category)) throw Error(`Settings category ${category} does not exist`);
+        return Object.fromEntries(Object.entries(values).filter(([path]) => {
+            const declared = this.getDeclared(path);
+            return declared !== undefined && (category === undefined || declared.category?.key === category || declared.category?.title === category);
+        }));
+    }
+
+    private validatePresets(presets: SettingsPreset[]): SettingsIssue[] {
+        const issues: SettingsIssue[] = [];
+        presets.forEach((preset, index) => {
+            const path = `presets.${preset.name}`;
+            if (presets.findIndex(other => other.name === preset.name) !== index) issues.push({ severity: 'error', path, message: 'duplicate preset name' });
+            let values: { [path: string]: any };
+            try {
+                values = this.toSettingsPaths(preset.values);
+            } catch (error) {
+                issues.push({ severity: 'error', path, message: (error as Error).message });
+                return;
+            }
+            Object.entries(values).forEach(([settingPath, value]) => {
+                const declared = this.getDeclared(settingPath);
+                const violation = declared ? SettingsSchema.validateValue(declared.setting, value) : 'setting is not declared';
+                if (violation) issues.push({ severity: 'error', path: `${path}.${settingPath}`, message: violation, value });
+            });
+        });
+        return issues;
+    }
+
+    private writeSettings(values: { [path: string]: any }): void {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        Object.entries(values).forEach(([path, value]) => {
+            const declared = this.getDeclared(path);
+            if (!declared) throw Error(`Setting ${path} is not declared`);
+            const violation = SettingsSchema.validateValue(declared.setting, value);
+            if (violation) throw Error(`Invalid value for ${path}: ${violation}`);
+        });
+        if (Object.keys(values).length === 0) return;
+
+        const previous = this.settingsSnapshot ?? this.loadSettingsData();
+        this.writeWorldSettings(values);
+        const current = this.loadSettingsData();
+        if (this.settingsSnapshot) this.settingsSnapshot = current;
+        const paths: string[] = Object.keys(values);
+        this.whenReady(() => this.host.system.sendScriptEvent('acm:settings_refresh', JSON.stringify({ addonId: this.identifier(), paths })), false);
+        this.emitSettingsChanged(previous, current);
+    }
+
+    /**
+    * Stores a value for a player-scoped setting for one player.
+    * 
+    * @param player - The player the value belongs to.
+    * @param path - The settings path, as `key` or `category.key`.
+    * @param value - The new value.
+    * @throws Error if the setting is not declared, not player-scoped, or the value is invalid.
+    */
+    public setPlayerSetting(player: Player, path: string, value: any): void {
+        const declared = this.getDeclared(path);
+        if (!declared) throw Error(`Setting ${path} is not declared`);
+        if (SettingsSchema.scope(declared) !== 'player') throw Error(`Setting ${path} is not player-scoped`);
+        const violation = SettingsSchema.validateValue(declared.setting, value);
+        if (violation) throw Error(`Invalid value for ${path}: ${violation}`);
+
+        const previous = this.loadSettingsData(player);
+        this.savePlayerOverrides(player, { ...this.loadPlayerOverrides(player), [path]: value });
+        this.emitSettingsChanged(previous, this.loadSettingsData(player), player);
+    }
+
+    /**
+    * Removes a player's values for player-scoped settings, so the world values apply again.
+    * 
+    * @param player - The player whose values are removed.
+    * @param path - The settings path to reset (optional, defaults to every player-scoped setting).
+    */
+    public resetPlayerSettings(player: Player, path?: string): void {
+        const previous = this.loadSettingsData(player);
+        const overrides = this.loadPlayerOverrides(player);
+        if (path) delete overrides[path];
+        this.savePlayerOverrides(player, path ? overrides : {});
+        this.emitSettingsChanged(previous, this.loadSettingsData(player), player);
+    }
+
+    /**
+    * Gets a typed channel for the signals an addon emits.
+    * 
+    * @param addonId - The identifier (`author_packId`) of the emitting addon (default: this addon).
+    * @returns A channel whose `emit` and subscriptions are checked against the signal catalog `C`.
+    */
+    public signals<C extends SignalCatalog>(addonId?: string): SignalChannel<C> {
+        return SignalChannel.create<C>(this, addonId ?? this.localId());
+    }
+
+    /**
+    * Registers a handler other addons can call with `call`.
+    * 
+    * @param name - The name the handler is called by.
+    * @param handler - Receives the arguments and the calling addon's identifier, and returns or resolves to the result.
+    * @throws Error if a handler with that name is already registered.
+    */
+    public handle(name: string, handler: RpcHandler): void {
+        if (this.rpcHandlers.has(name)) throw Error(`Handler ${name} is already registered`);
+        this.rpcHandlers.set(name, handler);
+    }
+
+    /**
+    * Removes a handler registered with `handle`.
+    * 
+    * @param name - The name of the handler.
+    */
+    public unhandle(name: string): void {
+        this.rpcHandlers.delete(name);
+    }
+
+    /**
+    * Calls a handler registered by another addon (or this one) and waits for its result.
+    * Arguments and results may contain `Map`, `Set`, `Date` and bigint values.
+    * 
+    * @param target - The identifier (`author_packId`) of the addon to call.
+    * @param name - The name of the handler.
+    * @param args - The arguments passed to the handler (optional).
+    * @param options - The call options, such as the timeout in ticks.
+    * @returns A promise resolving to the handler's result, or rejecting with an `AcmRpcError`.
+    * @throws Error if the addon is not initialized.
+    */
+    public call<T = any>(target: string, name: string, args?: any, options: RpcCallOptions = {}): Promise<T> {
+        const from: string = this.localId();
+        const timeout: number = options.timeout ?? RPC_DEFAULT_TIMEOUT;
+        const id: string = `${from}:${++this.callCount}:${Math.random().toString(36).slice(2, 8)}`;
+        return new Promise<T>((resolve, reject) => {
+            const timeoutRun: number = this.host.system.runTimeout(() => {
+                this.pendingCalls.delete(id);
+                reject(new AcmRpcError('timeout', `Call ${name} to ${target} timed out after ${timeout} ticks`));
+            }, timeout);
+            this.pendingCalls.set(id, { resolve, reject, timeoutRun });
+            const request: RpcRequest = { id, from, name, args: FsCodecs.structured().encode(args) };
+            this.sendSignal(`ACM:SIGNAL.${target.toUpperCase()}.${RPC_REQUEST}`, JSON.stringify(request));
+        });
+    }
+
+    /**
+    * Registers an extension at runtime, shown in the ACM (HUD) next to those declared in `initAddon`.
+    * Triggers are checked against the extension's permission, then passed to `OnExtensionTriggerd` and the handler,
+    * whose returned message or result is shown back to the player.
+    * 
+    * @param extension - The extension to register.
+    * @param handler - Handles the triggers of the extension (optional).
+    * @throws Error if the addon is not initialized, an extension with the same id exists, or the extension requires an operator
+    * while `initAddon` was given no `isOperator` option.
+    */
+    public registerExtension(extension: ExtensionData, handler?: ExtensionHandler): void {
+        if (!this.addonData) throw Error("addon data is undefined.");
+        if (!extension.id) throw Error("Extension id must not be empty");
+        if (extension.permission?.operator && !this.operatorCheck) throw Error(`Extension ${extension.id} requires an operator, but no isOperator option was given`);
+        if (this.extensions.some(existing => existing.id === extension.id)) throw Error(`Extension ${extension.id} already registered`);
+        this.extensions.push(extension);
+        if (handler) this.extensionHandlers.set(extension.id, handler);
+        this.hasExtensions = true;
+        this.scheduleAnnounce();
+    }
+
+    /**
+    * Sets the handler of an extension declared in `initAddon` or registered without one.
+    * 
+    * @param extensionId - The id of the extension.
+    * @param handler - Handles the triggers of the extension.
+    * @throws Error if the extension does not exist.
+    */
+    public handleExtension(extensionId: string, handler: ExtensionHandler): void {
+        if (!this.extensions.some(extension => extension.id === extensionId)) throw Error(`Extension ${extensionId} does not exist`);
+        this.extensionHandlers.set(extensionId, handler);
+    }
+
+    /**
+    * Unregisters an extension, removing it from the ACM (HUD).
+    * 
+    * @param extensionId - The id of the extension.
+    * @returns True if the extension existed.
+    */
+    public unregisterExtension(extensionId: string): boolean {
+        if (!this.extensions.some(extension => extension.id === extensionId)) return false;
+        this.extensions = this.extensions.filter(extension => extension.id !== extensionId);
+        this.extensionHandlers.delete(extensionId);
+        this.scheduleAnnounce();
+        return true;
+    }
+
+    /**
+    * Emits a custom event to OnCustomSignalEmittedEvent subscribers. Signals emitted before the engine is ready are queued until it is,
+    * or sent as they are once the engine is reported missing.
+    * 
+    * @param eventId - The unique identifier for the event.
+    * @param data - Optional data to include with the event.
+    */
+    public emit(eventId: string, data?: any): void {
+        if ([RPC_REQUEST, RPC_RESPONSE].includes(eventId.toUpperCase())) throw Error(`Event id ${eventId} is reserved`);
+        let dataKey: any = 'void';
+        if (data !== undefined) dataKey = JSON.stringify(data);
+        this.whenReady(() => {
+            const eventKey: string = `acm:signal.${this.addonData?.description.author}_${this.addonData?.description.packId}.${eventId}`
+            this.sendSignal(eventKey.toLocaleUpperCase(), dataKey);
+        }, false);
+    }
+}
+
+
+class Events {
+    private constructor(system: AcmSystem) {
+        this.OnError = OnErrorEventSignal.create();
+        // Handler errors go to OnError subscribers, or to the console if there are none.
+        const report = (error: unknown, source: string): void => {
+            if (this.OnError.hasSubscribers()) this.OnError.emit(OnErrorEvent.create(error, source));
+            else console.error(`Error @ACM:${source} subscriber:`, error);
+        };
+        this.OnAddonReady = OnAddonReadyEventSignal.create(report);
+        this.OnSettingsChanged = OnSettingsChangedEventSignal.create(report);
+        this.OnExtensionTriggerd = OnExtensionTriggerdEventSignal.create(report);
+        this.OnCustomSignalEmitted = OnCustomSignalEmittedEventSignal.create(report, system);
+        this.OnEngineMissing = OnEngineMissingEventSignal.create(report);
+        this.OnDependencyIssue = OnDependencyIssueEventSignal.create(report);
+
+    }
+    readonly OnAddonReady: OnAddonReadyEventSignal;
+    readonly OnSettingsChanged: OnSettingsChangedEventSignal;
+    readonly OnExtensionTriggerd: OnExtensionTriggerdEventSignal;
+    readonly OnCustomSignalEmitted: OnCustomSignalEmittedEventSignal;
+    readonly OnEngineMissing: OnEngineMissingEventSignal;
+    readonly OnDependencyIssue: OnDependencyIssueEventSignal;
+    /** Receives errors thrown or rejected by the handlers of the other events. */
+    readonly OnError: OnErrorEventSignal;
+
+    /**
+     * Creates a group to collect subscriptions in, such as those of one feature module.
+     */
+    group(): EventGroup {
+        return EventGroup.create();
+    }
+
+    static create(system: AcmSystem = DEFAULT_HOST.system): Events {
+        return new Events(system);
+    }
+}
+
+export class OnAddonReadyEvent {
+    /**
+     * Represents the event triggered when your addon is ready.
+     * @param addonData The data associated with the addon.
+     */
+    private constructor(public readonly addonData: AddonData) { }
+
+    /**
+     * Creates a new instance of the `OnAddonReadyEvent`.
+     * @param addonData The data associated with the addon.
+     * @returns A new `OnAddonReadyEvent` instance.
+     */
+    static create(addonData: AddonData): OnAddonReadyEvent {
+        return new OnAddonReadyEvent(addonData);
+    }
+}
+
+/**
+ * Represents a catalog of the signals an addon emits: each emitter id mapped to the type of its payload.
+ */
+export type SignalCatalog = { [emitterId: string]: any };
+
+/**
+ * Represents a custom signal whose payload is typed by a signal catalog.
+ */
+export type TypedSignalEvent<T> = OnCustomSignalEmittedEvent & { readonly data: T };
+
+/**
+ * Represents the signals of one addon, typed by its signal catalog, as returned by `AcmLibrary.signals`.
+ */
+export class SignalChannel<C extends SignalCatalog> {
+    private constructor(private readonly library: AcmLibrary, public readonly addonId: string) { }
+
+    /**
+     * Emits a signal of this addon.
+     * @param emitterId The emitter id of the signal.
+     * @param data The payload of the signal.
+     * @throws Error if the channel belongs to another addon.
+     */
+    public emit<K extends keyof C & string>(emitterId: K, data: C[K]): void {
+        if (this.library.addonData && this.addonId.toUpperCase() !== `${this.library.addonData.description.author}_${this.library.addonData.description.packId}`.toUpperCase()) {
+            throw Error(`Signals of addon ${this.addonId} can only be emitted by that addon`);
+        }
+        this.library.emit(emitterId, data);
+    }
+
+    /**
+     * Subscribes to a signal of the channel's addon.
+     * @returns The subscription, to dispose or pass to `Events.OnCustomSignalEmitted.unsubscribe`.
+     */
+    public subscribe<K extends keyof C & string>(emitterId: K, callback: EventHandler<TypedSignalEvent<C[K]>>, options?: SubscribeOptions): EventSubscription {
+        return this.library.Events.OnCustomSignalEmitted.subscribe({ addonId: this.addonId, emitterId }, callback as EventHandler<OnCustomSignalEmittedEvent>, options);
+    }
+
+    /**
+     * Subscribes to the next signal of the channel's addon.
+     * @returns The subscription, to dispose before the signal arrives.
+     */
+    public once<K extends keyof C & string>(emitterId: K, callback: EventHandler<TypedSignalEvent<C[K]>>, options?: SubscribeOptions): EventSubscription {
+        return this.library.Events.OnCustomSignalEmitted.once({ addonId: this.addonId, emitterId }, callback as EventHandler<OnCustomSignalEmittedEvent>, options);
+    }
+
+    /**
+     * Waits for the next signal of the channel's addon.
+     * @param emitterId The emitter id of the signal.
+     * @param timeout How long, in ticks, to wait before rejecting (default: no limit).
+     */
+    public waitFor<K extends keyof C & string>(emitterId: K, timeout?: number): Promise<TypedSignalEvent<C[K]>> {
+        return this.library.Events.OnCustomSignalEmitted.waitFor({ addonId: this.addonId, emitterId }, timeout) as Promise<TypedSignalEvent<C[K]>>;
+    }
+
+    /**
+     * Creates a new `SignalChannel`.
+     * @param library The library signals are emitted and received through.
+     * @param addonId The identifier of the emitting addon.
+     */
+    public static create<C extends SignalCatalog>(library: AcmLibrary, addonId: string): SignalChannel<C> { return new SignalChannel<C>(library, addonId); }
+}
+
+/**
+ * Represents an event that is triggered when a custom signal is emitted.
+ */
+/**
+ * Represents an event triggered when a custom signal is emitted.
+ */
+export class OnCustomSignalEmittedEvent {
+    /**
+     * Constructs an instance of `OnCustomSignalEmittedEvent`.
+     * This constructor is private to enforce the use of the `create` method for instantiation.
+     * 
+     * @param addonId - The unique identifier of the addon emitting the signal.
+     * @param emitterId - The unique identifier of the emitter within the addon.
+     * @param data - Optional additional data associated with the emitted signal.
+     */
+    private constructor(public readonly addonId: string, public readonly emitterId: string, public readonly data?: any) { }
+
+    /**
+     * Factory method to create an instance of `OnCustomSignalEmittedEvent`.
+     * 
+     * @param addonId - The unique identifier of the addon emitting the signal.
+     * @param emitterId - The unique identifier of the emitter within the addon.
+     * @param data - Optional additional data associated with the emitted signal.
+     * @returns A new instance of `OnCustomSignalEmittedEvent`.
+     */
+    static create(addonId: string, emitterId: string, data?: any): OnCustomSignalEmittedEvent {
+        return new OnCustomSignalEmittedEvent(addonId, emitterId, data);
+    }
+}
+
+export class OnSettingsChangedEvent {
+    /**
+     * Represents the event triggered when addon settings are changed.
+     * @param settingsData The updated settings data.
+     * @param player The player who triggered the settings change (optional; only known with an engine that sends `acm:settings_<id>`).
+     * @param previousSettingsData The settings data before the change.
+     * @param changedKeys The keys of the changed settings, as `category.key` when categories are used.
+     * @param changedCategories The keys of the categories containing changed settings.
+     */
+    private constructor(
+        public readonly settingsData: any,
+        public readonly player?: Player,
+        public readonly previousSettingsData: any = {},
+        public readonly changedKeys: string[] = [],
+        public readonly changedCategories: string[] = []
+    ) { }
+
+    /**
+     * Creates a new instance of the `OnSettingsChangedEvent`.
+     * @param settingsData The updated settings data.
+     * @param player The player who triggered the settings change (optional; only known with an engine that sends `acm:settings_<id>`).
+     * @param previousSettingsData The settings data before the change.
+     * @param changedKeys The keys of the changed settings, as `category.key` when categories are used.
+     * @param changedCategories The keys of the categories containing changed settings.
+     * @returns A new `OnSettingsChangedEvent` instance.
+     */
+    static create(settingsData: any, player?: Player, previousSettingsData: any = {}, changedKeys: string[] = [], changedCategories: string[] = []): OnSettingsChangedEvent {
+        return new OnSettingsChangedEvent(settingsData, player, previousSettingsData, changedKeys, changedCategories);
+    }
+}
+
+export class OnEngineMissingEvent {
+    /**
+     * Represents the event triggered when the ACM engine did not answer the handshake in time.
+     * @param waitedTicks How long, in ticks, the library waited for the engine.
+     */
+    private constructor(public readonly waitedTicks: number) { }
+
+    /**
+     * Creates a new instance of the `OnEngineMissingEvent`.
+     * @param waitedTicks How long, in ticks, the library waited for the engine.
+     * @returns A new `OnEngineMissingEvent` instance.
+     */
+    static create(waitedTicks: number): OnEngineMissingEvent {
+        return new OnEngineMissingEvent(waitedTicks);
+    }
+}
+
+export class OnDependencyIssueEvent {
+    /**
+     * Represents the event triggered when declared dependencies are missing or incompatible after the handshake.
+     * @param issues The missing and incompatible dependencies.
+     */
+    private constructor(public readonly issues: DependencyIssue[]) { }
+
+    /**
+     * Creates a new instance of the `OnDependencyIssueEvent`.
+     * @param issues The missing and incompatible dependencies.
+     * @returns A new `OnDependencyIssueEvent` instance.
+     */
+    static create(issues: DependencyIssue[]): OnDependencyIssueEvent {
+        return new OnDependencyIssueEvent(issues);
+    }
+}
+
+export class OnErrorEvent {
+    /**
+     * Represents an error thrown or rejected by an event handler.
+     * @param error The error.
+     * @param source The name of the event whose handler failed.
+     */
+    private constructor(public readonly error: unknown, public readonly source: string) { }
+
+    /**
+     * Creates a new instance of the `OnErrorEvent`.
+     * @param error The error.
+     * @param source The name of the event whose handler failed.
+     * @returns A new `OnErrorEvent` instance.
+     */
+    static create(error: unknown, source: string): OnErrorEvent {
+        return new OnErrorEvent(error, source);
+    }
+}
+
+export class OnExtensionTriggerdEvent {
+    /**
+     * Represents the event triggered when an extension is activated.
+     * @param extensionId The unique identifier of the triggered extension.
+     * @param player The player who triggered the extension.
+     * @param args The arguments sent with the trigger (optional).
+     */
+    private constructor(public readonly extensionId: string, public readonly player: Player, public readonly args?: any) { }
+
+    /**
+     * Creates a new instance of the `OnExtensionTriggerdEvent`.
+     * @param extensionId The unique identifier of the triggered extension.
+     * @param player The player who triggered the extension.
+     * @param args The arguments sent with the trigger (optional).
+     * @returns A new `OnExtensionTriggerdEvent` instance.
+     */
+    static create(extensionId: string, player: Player, args?: any): OnExtensionTriggerdEvent {
+        return new OnExtensionTriggerdEvent(extensionId, player, args);
+    }
+}
+
+/**
+ * Represents the options of an event subscription.
+ */
+export interface SubscribeOptions {
+    /** Handlers with a higher priority run first; equal priorities run in subscription order (default: 0). */
+    priority?: number;
+    /** Whether to unsubscribe after the first event (default: false). */
+    once?: boolean;
+    /** The group the subscription is added to, to be disposed together. */
+    group?: EventGroup;
+}
+
+/**
+ * Represents an event subscription, as returned by `subscribe`.
+ */
+export interface EventSubscription {
+    /** Whether the subscription still receives events. */
+    readonly active: boolean;
+    /** Stops the subscription. Disposing it again has no effect. */
+    dispose(): void;
+}
+
+/**
+ * Represents a handler of library events. A returned promise that rejects is reported like a thrown error.
+ */
+export type EventHandler<T> = (event: T) => void | Promise<void>;
+
+/**
+ * Collects subscriptions, such as those of one feature module, so they can be disposed at once.
+ */
+export class EventGroup {
+    private readonly subscriptions: Set<EventSubscription> = new Set();
+
+    private constructor() { }
+
+    /**
+     * The number of active subscriptions in the group.
+     */
+    public get size(): number {
+        return [...this.subscriptions].filter(subscription => subscription.active).length;
+    }
+
+    /**
+     * Adds a subscription to the group, dropping those already disposed.
+     * @returns The subscription.
+     */
+    public add(subscription: EventSubscription): EventSubscription {
+        this.subscriptions.forEach(existing => { if (!existing.active) this.subscriptions.delete(existing); });
+        this.subscriptions.add(subscription);
+        return subscription;
+    }
+
+    /**
+     * Removes a subscription from the group without disposing it; subscriptions made with a `group` option remove themselves when disposed.
+     * @returns True if the subscription was in the group.
+     */
+    public remove(subscription: EventSubscription): boolean {
+        return this.subscriptions.delete(subscription);
+    }
+
+    /**
+     * Disposes every subscription in the group.
+     */
+    public dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions.clear();
+    }
+
+    /**
+     * Creates a new, empty `EventGroup`.
+     */
+    public static create(): EventGroup { return new EventGroup(); }
+}
+
+interface EventSubscriber<T, F> {
+    callback: EventHandler<T>;
+    filter: F | undefined;
+    priority: number;
+    once: boolean;
+    subscription: EventSubscription;
+}
+
+/**
+ * Holds the subscribers of one library event and delivers events to them.
+ */
+class EventSignal<T, F = never> {
+    private subscribers: EventSubscriber<T, F>[] = [];
+
+    protected constructor(private readonly name: string, private readonly report: (error: unknown, source: string) => void) { }
+
+    /**
+     * Checks if an event matches a subscription filter.
+     */
+    protected matches(filter: F, event: T): boolean {
+        return true;
+    }
+
+    protected add(callback: EventHandler<T>, options: SubscribeOptions = {}, filter?: F): EventSubscription {
+        let active: boolean = true;
+        const subscription: EventSubscription = {
+            get active(): boolean { return active; },
+            dispose: () => {
+                active = false;
+                this.subscribers = this.subscribers.filter(subscriber => subscriber.subscription !== subscription);
+                options.group?.remove(subscription);
+            }
+        };
+        const priority: number = options.priority ?? 0;
+        const index: number = this.subscribers.findIndex(subscriber => subscriber.priority < priority);
+        const subscriber: EventSubscriber<T, F> = { callback, filter, priority, once: options.once ?? false, subscription };
+        this.subscribers = index < 0 ? [...this.subscribers, subscriber] : [...this.subscribers.slice(0, index), subscriber, ...this.subscribers.slice(index)];
+        options.group?.add(subscription);
+        return subscription;
+    }
+
+    /**
+     * Subscribes to the event.
+     * @param callback The handler, which may be async.
+     * @param options The priority, whether to run once, and the group of the subscription.
+     * @returns The subscription, to dispose or pass to `unsubscribe`.
+     */
+    public subscribe(callback: EventHandler<T>, options?: SubscribeOptions): EventSubscription {
+        return this.add(callback, options);
+    }
+
+    /**
+     * Subscribes to the next event only.
+     * @returns The subscription, to dispose before the event arrives.
+     */
+    public once(callback: EventHandler<T>, options: SubscribeOptions = {}): EventSubscription {
+        return this.add(callback, { ...options, once: true });
+    }
+
+    /**
+     * Checks if the event has any active subscription.
+     * @returns True if at least one handler is subscribed, false otherwise.
+     */
+    public hasSubscribers(): boolean {
+        return this.subscribers.length > 0;
+    }
+
+    /**
+     * Removes a subscription, or every subscription of a handler.
+     * @param subscription The subscription returned by `subscribe`, or the subscribed handler.
+     */
+    public unsubscribe(subscription: EventSubscription | EventHandler<T>): void {
+        if (typeof subscription === 'function') this.subscribers.filter(subscriber => subscriber.callback === subscription).forEach(subscriber => subscriber.subscription.dispose());
+        else subscription.dispose();
+    }
+
+    /**
+     * Delivers an event to the matching subscribers, by priority. Errors thrown or rejected by handlers are reported
+     * through the library's `OnError` event.
+     * @param event The event to deliver.
+     */
+    public emit(event: T): void {
+        for (const subscriber of this.subscribers) {
+            if (!subscriber.subscription.active) continue;
+            if (subscriber.filter !== undefined && !this.matches(subscriber.filter, event)) continue;
+            if (subscriber.once) subscriber.subscription.dispose();
+            try {
+                const result = subscriber.callback(event);
+                if (result instanceof Promise) result.catch(error => this.report(error, this.name));
+            } catch (error) {
+                this.report(error, this.name);
+            }
+        }
+    }
+}
+
+class OnErrorEventSignal extends EventSignal<OnErrorEvent> {
+    public static create(): OnErrorEventSignal {
+        return new OnErrorEventSignal('OnErrorEvent', (error, source) => console.error(`Error @ACM:${source} subscriber:`, error));
+    }
+}
+
+class OnAddonReadyEventSignal extends EventSignal<OnAddonReadyEvent> {
+    public static create(report: (error: unknown, source: string) => void): OnAddonReadyEventSignal {
+        return new OnAddonReadyEventSignal('OnAddonReadyEvent', report);
+    }
+}
+
+/**
+ * Represents the filter of a signal subscription. Ids are matched case-insensitively, and `*` matches any run of characters.
+ */
+export interface SignalFilter {
+    /** The addon that emitted the signal (default: any). */
+    addonId?: string;
+    /** The emitter id of the signal (default: any). */
+    emitterId?: string;
+}
+
+function matchesWildcard(pattern: string | undefined, value: string): boolean {
+    if (pattern === undefined) return true;
+    const source: string = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i').test(value);
+}
+
+class OnCustomSignalEmittedEventSignal extends EventSignal<OnCustomSignalEmittedEvent, SignalFilter> {
+    private constructor(report: (error: unknown, source: string) => void, private readonly system: AcmSystem) {
+        super('OnCustomSignalEmittedEvent', report);
+    }
+
+    public static create(report: (error: unknown, source: string) => void, system: AcmSystem = DEFAULT_HOST.system): OnCustomSignalEmittedEventSignal {
+        return new OnCustomSignalEmittedEventSignal(report, system);
+    }
+
+    protected matches(filter: SignalFilter, event: OnCustomSignalEmittedEvent): boolean {
+        return matchesWildcard(filter.addonId, event.addonId) && matchesWildcard(filter.emitterId, event.emitterId);
+    }
+
+    /**
+     * Subscribes to signals, optionally only those matching a filter.
+     * @returns The subscription, to dispose or pass to `unsubscribe`.
+     */
+    public subscribe(callback: EventHandler<OnCustomSignalEmittedEvent>, options?: SubscribeOptions): EventSubscription;
+    public subscribe(filter: SignalFilter, callback: EventHandler<OnCustomSignalEmittedEvent>, options?: SubscribeOptions): EventSubscription;
+    public subscribe(filterOrCallback: SignalFilter | EventHandler<OnCustomSignalEmittedEvent>, callbackOrOptions?: EventHandler<OnCustomSignalEmittedEvent> | SubscribeOptions, options?: SubscribeOptions): EventSubscription {
+        if (typeof filterOrCallback === 'function') return this.add(filterOrCallback, callbackOrOptions as SubscribeOptions | undefined);
+        return this.add(callbackOrOptions as EventHandler<OnCustomSignalEmittedEvent>, options, filterOrCallback);
+    }
+
+    /**
+     * Subscribes to the next signal, optionally only one matching a filter.
+     * @returns The subscription, to dispose before the signal arrives.
+     */
+    public once(callback: EventHandler<OnCustomSignalEmittedEvent>, options?: SubscribeOptions): EventSubscription;
+    public once(filter: SignalFilter, callback: EventHandler<OnCustomSignalEmittedEvent>, options?: SubscribeOptions): EventSubscription;
+    public once(filterOrCallback: SignalFilter | EventHandler<OnCustomSignalEmittedEvent>, callbackOrOptions?: EventHandler<OnCustomSignalEmittedEvent> | SubscribeOptions, options?: SubscribeOptions): EventSubscription {
+        if (typeof filterOrCallback === 'function') return this.add(filterOrCallback, { ...callbackOrOptions as SubscribeOptions | undefined, once: true });
+        return this.add(callbackOrOptions as EventHandler<OnCustomSignalEmittedEvent>, { ...options, once: true }, filterOrCallback);
+    }
+
+    /**
+     * Waits for the next signal matching a filter.
+     * @param filter The signals to wait for (default: any).
+     * @param timeout How long, in ticks, to wait before rejecting (default: no limit).
+     * @returns A promise resolving to the signal.
+     */
+    public waitFor(filter: SignalFilter = {}, timeout?: number): Promise<OnCustomSignalEmittedEvent> {
+        return new Promise((resolve, reject) => {
+            let timeoutRun: number | undefined = undefined;
+            const subscription: EventSubscription = this.once(filter, event => {
+                if (timeoutRun !== undefined) this.system.clearRun(timeoutRun);
+                resolve(event);
+            });
+            if (timeout === undefined) return;
+            timeoutRun = this.system.runTimeout(() => {
+                subscription.dispose();
+                reject(new Error(`No signal matching ${JSON.stringify(filter)} within ${timeout} ticks`));
+            }, timeout);
+        });
+    }
+}
+
+class OnSettingsChangedEventSignal extends EventSignal<OnSettingsChangedEvent> {
+    public static create(report: (error: unknown, source: string) => void): OnSettingsChangedEventSignal {
+        return new OnSettingsChangedEventSignal('OnSettingsChangedEvent', report);
+    }
+}
+
+class OnEngineMissingEventSignal extends EventSignal<OnEngineMissingEvent> {
+    public static create(report: (error: unknown, source: string) => void): OnEngineMissingEventSignal {
+        return new OnEngineMissingEventSignal('OnEngineMissingEvent', report);
+    }
+}
+
+class OnDependencyIssueEventSignal extends EventSignal<OnDependencyIssueEvent> {
+    public static create(report: (error: unknown, source: string) => void): OnDependencyIssueEventSignal {
+        return new OnDependencyIssueEventSignal('OnDependencyIssueEvent', report);
+    }
+}
+
+class OnExtensionTriggerdEventSignal extends EventSignal<OnExtensionTriggerdEvent> {
+    public static create(report: (error: unknown, source: string) => void): OnExtensionTriggerdEventSignal {
+        return new OnExtensionTriggerdEventSignal('OnExtensionTriggerdEvent', report);
+    }
+}
+
+// Logger
+
+/**
+ * Represents the severity of a log entry, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Represents an entry of ACM's log.
+ */
+export interface LogEntry {
+    /** The position of the entry in the log; later entries have higher numbers. */
+    sequence: number;
+    /** The tick the entry was logged at. */
+    tick: number;
+    level: LogLevel;
+    /** The `author_packId` identifier of the addon that logged the entry. */
+    source: string;
+    message: string;
+    /** Structured data logged with the message (optional). */
+    context?: { [key: string]: any };
+}
+
+/**
+ * Represents the filters of `AcmLogger.query`; every given filter must match.
+ */
+export interface LogQuery {
+    /** The addon that logged the entries. */
+    source?: string;
+    /** The minimum level of the entries. */
+    level?: LogLevel;
+    /** The first tick of the entries. */
+    from?: number;
+    /** The last tick of the entries. */
+    to?: number;
+    /** The most entries to return, keeping the newest. */
+    limit?: number;
+}
+
+const LOG_OBJECTIVE = 'ACM:LOG';
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** How many entries ACM's log keeps by default before rotating out the oldest. */
+const LOG_DEFAULT_CAPACITY = 500;
+
+export class AcmLogger {
+    private minimumLevel: LogLevel = 'debug';
+    private capacity: number = LOG_DEFAULT_CAPACITY;
+    private pending: Omit<LogEntry, 'sequence'>[] = [];
+    private constructor(
+        private readonly scoreboard: AcmScoreboard,
+        private readonly source: () => string,
+        private readonly clock: () => number,
+        private readonly awaitingStore: () => boolean
+    ) { }
+
+    /**
+     * Parses a stored entry; entries written as `<n>: message` by older versions are read as info entries at tick 0.
+     */
+    private static parse(participant: AcmScoreboardIdentity, sequence: number): LogEntry | undefined {
+        const name: string = participant.displayName;
+        const separator: number = name.indexOf(':');
+        if (separator === -1) return undefined;
+        const body: string = name.slice(separator + 1);
+        if (!body.startsWith('{')) return { sequence, tick: 0, level: 'info', source: '', message: body.trimStart() };
+        try {
+            const data = JSON.parse(body) as { t: number, l: LogLevel, s: string, m: string, c?: { [key: string]: any } };
+            return { sequence, tick: data.t, level: data.l, source: data.s, message: data.m, ...(data.c !== undefined ? { context: data.c } : {}) };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static serialize(entry: Omit<LogEntry, 'sequence'>): string {
+        const data = { t: entry.tick, l: entry.level, s: entry.source, m: entry.message, c: entry.context };
+        try {
+            return JSON.stringify(data, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+        } catch {
+            return JSON.stringify({ ...data, c: { unserializable: String(entry.context) } });
+        }
+    }
+
+    private static print(entry: Omit<LogEntry, 'sequence'>): void {
+        const line: string = `[ACM] ${entry.source} ${entry.level.toUpperCase()} @${entry.tick}: ${entry.message}`;
+        const args: any[] = entry.context !== undefined ? [line, entry.context] : [line];
+        if (entry.level === 'error') console.error(...args);
+        else if (entry.level === 'warn') console.warn(...args);
+        else console.log(...args);
+    }
+
+    private write(level: LogLevel, message: string, context?: { [key: string]: any }): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.minimumLevel)) return;
+        const entry: Omit<LogEntry, 'sequence'> = { tick: this.clock(), level, source: this.source(), message, ...(context !== undefined ? { context } : {}) };
+        if (this.scoreboard.getObjective(LOG_OBJECTIVE) || !this.awaitingStore()) {
+            this.store(entry);
+            return;
+        }
+        // Held apart from the engine queue, bounded like the log itself.
+        if (this.pending.length >= this.capacity) this.pending.shift();
+        this.pending.push(entry);
+    }
+
+    /**
+     * Stores an entry in ACM's log, or prints it to the console when the log store does not exist.
+     */
+    private store(entry: Omit<LogEntry, 'sequence'>): void {
+        const db: AcmScoreboardObjective | undefined = this.scoreboard.getObjective(LOG_OBJECTIVE);
+        if (!db) {
+            AcmLogger.print(entry);
+            return;
+        }
+        const participants: AcmScoreboardIdentity[] = db.getParticipants();
+        const sequence: number = participants.reduce((last, participant) => Math.max(last, db.getScore(participant) ?? 0), 0) + 1;
+        db.setScore(`${sequence}:${AcmLogger.serialize(entry)}`, sequence);
+        this.rotate(db, participants);
+    }
+
+    /**
+     * Removes the oldest entries beyond the capacity, counting the entry just written.
+     */
+    private rotate(db: AcmScoreboardObjective, previous: AcmScoreboardIdentity[]): void {
+        const excess: number = previous.length + 1 - this.capacity;
+        if (excess <= 0) return;
+        previous
+            .map(participant => ({ participant, sequence: db.getScore(participant) ?? 0 }))
+            .sort((a, b) => a.sequence - b.sequence)
+            .slice(0, excess)
+            .forEach(({ participant }) => db.removeParticipant(participant));
+    }
+
+    /**
+     * Logs a debug message, for diagnostics that are usually filtered out.
+     * @param message The message to log.
+     * @param context Structured data to log with the message (optional).
+     */
+    public debug(message: string, context?: { [key: string]: any }): void {
+        this.write('debug', message, context);
+    }
+
+    /**
+     * Logs an info message.
+     * @param message The message to log.
+     * @param context Structured data to log with the message (optional).
+     */
+    public info(message: string, context?: { [key: string]: any }): void {
+        this.write('info', message, context);
+    }
+
+    /**
+     * Logs a warning.
+     * @param message The message to log.
+     * @param context Structured data to log with the message (optional).
+     */
+    public warn(message: string, context?: { [key: string]: any }): void {
+        this.write('warn', message, context);
+    }
+
+    /**
+     * Logs an error.
+     * @param message The message to log.
+     * @param context Structured data to log with the message (optional).
+     */
+    public error(message: string, context?: { [key: string]: any }): void {
+        this.write('error', message, context);
+    }
+
+    /**
+     * Sets the minimum level this addon logs; less severe messages are discarded.
+     * @param level The minimum level (default: `debug`).
+     */
+    public setLevel(level: LogLevel): void {
+        if (!LOG_LEVELS.includes(level)) throw Error(`Unknown log level ${level}`);
+        this.minimumLevel = level;
+    }
+
+    /**
+     * Sets how many entries ACM's log keeps when this addon writes to it; the oldest entries are removed first.
+     * @param capacity The number of entries to keep (default: 500).
+     * @throws Error if the capacity is not a positive integer.
+     */
+    public setCapacity(capacity: number): void {
+        if (!Number.isInteger(capacity) || capacity < 1) throw Error(`Log capacity must be a positive integer, got ${capacity}`);
+        this.capacity = capacity;
+    }
+
+    /**
+     * Writes the entries held while the log store might still appear, storing them or printing them to the console.
+     * Called by the library once the engine answers the handshake or is found missing.
+     */
+    public flush(): void {
+        this.pending.splice(0).forEach(entry => this.store(entry));
+    }
+
+    /**
+     * Reads entries of ACM's log, from every addon.
+     * @param query The filters the entries must match (optional).
+     * @returns The matching entries, oldest first, or an empty array if the log store does not exist.
+     */
+    public query(query: LogQuery = {}): LogEntry[] {
+        const db: AcmScoreboardObjective | undefined = this.scoreboard.getObjective(LOG_OBJECTIVE);
+        if (!db) return [];
+        const minimum: number = LOG_LEVELS.indexOf(query.level ?? 'debug');
+        const entries: LogEntry[] = db.getParticipants()
+            .map(participant => AcmLogger.parse(participant, db.getScore(participant) ?? 0))
+            .filter((entry): entry is LogEntry => entry !== undefined)
+            .filter(entry => query.source === undefined || entry.source.toLowerCase() === query.source.toLowerCase())
+            .filter(entry => LOG_LEVELS.indexOf(entry.level) >= minimum)
+            .filter(entry => (query.from === undefined || entry.tick >= query.from) && (query.to === undefined || entry.tick <= query.to))
+            .sort((a, b) => a.sequence - b.sequence);
+        return query.limit !== undefined ? entries.slice(Math.max(0, entries.length - query.limit)) : entries;
+    }
+
+    /**
+     * Creates a logger that tags its entries with an addon.
+     * @param scoreboard The scoreboard holding ACM's log.
+     * @param source Gets the `author_packId` identifier of the addon.
+     * @param clock Gets the current tick.
+     * @param awaitingStore Gets whether the log store may still appear (e.g. while waiting for the engine), so entries are held until `flush` rather than printed.
+     */
+    public static create(scoreboard: AcmScoreboard, source: () => string, clock: () => number, awaitingStore: () => boolean = () => false): AcmLogger {
+        return new AcmLogger(scoreboard, source, clock, awaitingStore);
+    }
+}
+
+// Fs
+
+const ROOT_DIR = `ACM:FS`;
+const META_DIR = `ACM:META`;
+const JOURNAL_FILE = 'fsJournal';
+const SETTINGS_VERSION_FILE = 'settingsVersion';
+const PROFILES_FILE = 'settingsProfiles';
+
+function validateFileName(fileName: string): void {
+    if (fileName.length === 0) throw new Error('File name must not be empty');
+    if (fileName.includes(':')) throw new Error(`File name ${fileName} must not contain ':'`);
+}
+
+/**
+ * Serializes the content of a file.
+ * @throws Error if the content has no JSON form, such as `undefined` or a function.
+ */
+function serializeContent(fileName: string, content: any): string {
+    const data: string | undefined = JSON.stringify(content);
+    if (data === undefined) throw new Error(`Content of file ${fileName} cannot be serialized to JSON`);
+    return data;
+}
+
+/**
+ * Splits a `/`-separated path into its segments, ignoring leading, trailing and repeated separators.
+ * @throws Error if a segment contains `:`.
+ */
+function splitPath(path: string): string[] {
+    const segments: string[] = path.split('/').filter(segment => segment.length > 0);
+    segments.forEach(segment => { if (segment.includes(':')) throw new Error(`Path ${path} must not contain ':'`); });
+    return segments;
+}
+
+/**
+ * Checks a relative path against the `prefix` and `pattern` of list options. In patterns `*` and `?`
+ * match within a single segment and `**` matches across segments.
+ */
+function matchesListOptions(path: string, options: FsListOptions): boolean {
+    if (options.prefix !== undefined && !path.startsWith(options.prefix)) return false;
+    if (options.pattern === undefined) return true;
+    const source: string = options.pattern.split('**').map(part => part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')).join('.*');
+    return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Represents the access an owning addon grants another addon to one of its directories.
+ */
+export type FsAccess = 'read' | 'write';
+
+/**
+ * Represents the options of an `FsSys.list` or `Directory.list` call.
+ */
+export interface FsListOptions {
+    /** Only include entries whose relative path starts with this prefix. */
+    prefix?: string;
+    /** Only include entries whose relative path matches this glob. */
+    pattern?: string;
+    /** Whether to include the contents of sub-directories (default: false). */
+    recursive?: boolean;
+    /** Only include files or only directories (default: both). */
+    type?: 'file' | 'directory';
+}
+
+/**
+ * Represents the metadata of a file or directory. Ticks are undefined for files written before they were tracked;
+ * for a directory they are the earliest creation and latest modification of its files.
+ */
+export interface FsStat {
+    type: 'file' | 'directory';
+    path: string;
+    /** The size in bytes: the file's JSON, or every entry of the directory. */
+    size: number;
+    created?: number;
+    modified?: number;
+}
+
+/**
+ * Represents how a file's content is converted to and from JSON-compatible data.
+ */
+export interface FsCodec<T> {
+    /** Converts a value to data that survives `JSON.stringify`. */
+    encode(value: T): any;
+    /** Converts data parsed from JSON back to a value; throws if the data is malformed. */
+    decode(data: any): T;
+}
+
+/**
+ * Represents a schema check for the JSON data of a file, run before decoding.
+ * Returns an error message or `false` when the data is invalid, and `true` or nothing when it is valid.
+ */
+export type FsSchema = (data: any) => string | boolean | void;
+
+/**
+ * Represents a file whose content could not be read as its declared type: it is not valid JSON (`parse`),
+ * failed its schema (`schema`), or could not be decoded (`decode`).
+ */
+export class FsFileError extends Error {
+    public constructor(
+        /** The path of the file. */
+        public readonly path: string,
+        /** The stage of the read that failed. */
+        public readonly reason: 'parse' | 'schema' | 'decode',
+        /** A description of the problem. */
+        public readonly issue: string
+    ) {
+        super(`File ${path} failed ${reason}: ${issue}`);
+        this.name = 'FsFileError';
+    }
+}
+
+const STRUCTURED_TAG = '$acm';
+
+function isVectorLike(data: any, keys: string[]): boolean {
+    return typeof data === 'object' && data !== null && keys.every(key => typeof data[key] === 'number');
+}
+
+/**
+ * Built-in codecs for common JavaScript types and Minecraft value shapes.
+ */
+export const FsCodecs = {
+    /** Stores the value as plain JSON. */
+    json<T = any>(): FsCodec<T> {
+        return { encode: value => value, decode: data => data as T };
+    },
+    /**
+     * Stores any nesting of JSON values, `Map`, `Set`, `Date` and bigint, tagging non-JSON values with a `$acm` type.
+     */
+    structured<T = any>(): FsCodec<T> {
+        const encode = (value: any): any => {
+            if (typeof value === 'bigint') return { [STRUCTURED_TAG]: 'bigint', v: value.toString() };
+            if (value instanceof Date) return { [STRUCTURED_TAG]: 'Date', v: value.toISOString() };
+            if (value instanceof Map) return { [STRUCTURED_TAG]: 'Map', v: [...value].map(([key, item]) => [encode(key), encode(item)]) };
+            if (value instanceof Set) return { [STRUCTURED_TAG]: 'Set', v: [...value].map(encode) };
+            if (Array.isArray(value)) return value.map(encode);
+            if (typeof value !== 'object' || value === null) return value;
+            const data: Record<string, any> = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encode(item)]));
+            return STRUCTURED_TAG in value ? { [STRUCTURED_TAG]: 'Object', v: data } : data;
+        };
+        const decode = (data: any): any => {
+            if (Array.isArray(data)) return data.map(decode);
+            if (typeof data !== 'object' || data === null) return data;
+            if (!(STRUCTURED_TAG in data)) return Object.fromEntries(Object.entries(data).map(([key, item]) => [key, decode(item)]));
+            switch (data[STRUCTURED_TAG]) {
+                case 'bigint': return BigInt(data.v);
+                case 'Date': return FsCodecs.date.decode(data.v);
+                case 'Map': return new Map((data.v as any[][]).map(([key, item]) => [decode(key), decode(item)]));
+                case 'Set': return new Set((data.v as any[]).map(decode));
+                case 'Object': return Object.fromEntries(Object.entries(data.v).map(([key, item]) => [key, decode(item)]));
+                default: throw new Error(`Unknown type ${data[STRUCTURED_TAG]}`);
+            }
+        };
+        return { encode, decode };
+    },
+    /** Stores a `Date` as an ISO string. */
+    date: {
+        encode: (value: Date): string => value.toISOString(),
+        decode: (data: any): Date => {
+            const date: Date = new Date(data);
+            if (typeof data !== 'string' || isNaN(date.getTime())) throw new Error(`Invalid date ${data}`);
+            return date;
+        }
+    } as FsCodec<Date>,
+    /** Stores a bigint as a decimal string. */
+    bigint: {
+        encode: (value: bigint): string => value.toString(),
+        decode: (data: any): bigint => {
+            if (typeof data !== 'string') throw new Error(`Invalid bigint ${data}`);
+            return BigInt(data);
+        }
+    } as FsCodec<bigint>,
+    /** Stores only the `x`, `y` and `z` of a `Vector3`-like value. */
+    vector3: {
+        encode: (value: { x: number, y: number, z: number }) => ({ x: value.x, y: value.y, z: value.z }),
+        decode: (data: any) => {
+            if (!isVectorLike(data, ['x', 'y', 'z'])) throw new Error('Invalid Vector3');
+            return { x: data.x, y: data.y, z: data.z };
+        }
+    } as FsCodec<{ x: number, y: number, z: number }>,
+    /** Stores only the `x` and `y` of a `Vector2`-like value. */
+    vector2: {
+        encode: (value: { x: number, y: number }) => ({ x: value.x, y: value.y }),
+        decode: (data: any) => {
+            if (!isVectorLike(data, ['x', 'y'])) throw new Error('Invalid Vector2');
+            return { x: data.x, y: data.y };
+        }
+    } as FsCodec<{ x: number, y: number }>,
+    /** Stores an array, converting each item with the given codec. */
+    array<T>(item: FsCodec<T>): FsCodec<T[]> {
+        return {
+            encode: value => value.map(entry => item.encode(entry)),
+            decode: data => {
+                if (!Array.isArray(data)) throw new Error('Expected an array');
+                return data.map(entry => item.decode(entry));
+            }
+        };
+    },
+    /** Stores a `Set` as an array, converting each item with the given codec. */
+    set<T>(item: FsCodec<T> = FsCodecs.json<T>()): FsCodec<Set<T>> {
+        const items: FsCodec<T[]> = FsCodecs.array(item);
+        return { encode: value => items.encode([...value]), decode: data => new Set(items.decode(data)) };
+    },
+    /** Stores a `Map` as an array of entries, converting keys and values with the given codecs. */
+    map<K, V>(key: FsCodec<K> = FsCodecs.json<K>(), value: FsCodec<V> = FsCodecs.json<V>()): FsCodec<Map<K, V>> {
+        return {
+            encode: map => [...map].map(([entryKey, entryValue]) => [key.encode(entryKey), value.encode(entryValue)]),
+            decode: data => {
+                if (!Array.isArray(data)) throw new Error('Expected an array of entries');
+                return new Map(data.map((entry: any[]) => [key.decode(entry[0]), value.decode(entry[1])]));
+            }
+        };
+    },
+    /** Stores an object, converting each listed property with its codec; other properties are dropped. */
+    object<T extends Record<string, any>>(fields: { [K in keyof T]: FsCodec<T[K]> }): FsCodec<T> {
+        return {
+            encode: value => Object.fromEntries(Object.keys(fields).map(field => [field, fields[field].encode(value[field])])),
+            decode: data => {
+                if (typeof data !== 'object' || data === null) throw new Error('Expected an object');
+                return Object.fromEntries(Object.keys(fields).map(field => [field, fields[field].decode(data[field])])) as T;
+            }
+        };
+    }
+};
+
+/**
+ * Represents the journal persisted while a transaction commits: the content of every touched file
+ * before the commit (`null` if it did not exist), used to roll back an interrupted commit.
+ */
+interface FsJournal {
+    entries: { dbId: string, fileName: string, before: string | null }[];
+}
+
+/**
+ * Represents a file operation staged in an `FsTransaction`.
+ */
+export type FsOperation =
+    { type: 'write', directory: Directory, fileName: string, data: string } |
+    { type: 'delete', directory: Directory, fileName: string };
+
+/**
+ * Stages file operations across directories to be committed together by `FsSys.transaction`.
+ */
+export class FsTransaction {
+    private readonly operations: FsOperation[] = [];
+
+    private constructor(private readonly dir: FsDir) { }
+
+    private resolve(directory: Directory | string): Directory {
+        if (typeof directory !== 'string') return directory;
+        const resolved: Directory | undefined = this.dir.get(directory);
+        if (!resolved) throw new Error(`Directory ${directory} does not exist`);
+        return resolved;
+    }
+
+    /**
+     * Stages a write of content to a file.
+     * @param directory The directory, or the name of a directory of this addon.
+     * @param fileName The name of the file to write.
+     * @param content The content to write to the file.
+     * @returns The transaction, for chaining.
+     * @throws Error if the content cannot be serialized to JSON.
+     */
+    public write(directory: Directory | string, fileName: string, content: any): FsTransaction {
+        validateFileName(fileName);
+        this.operations.push({ type: 'write', directory: this.resolve(directory), fileName, data: serializeContent(fileName, content) });
+        return this;
+    }
+
+    /**
+     * Stages the deletion of a file.
+     * @param directory The directory, or the name of a directory of this addon.
+     * @param fileName The name of the file to delete.
+     * @returns The transaction, for chaining.
+     */
+    public delete(directory: Directory | string, fileName: string): FsTransaction {
+        this.operations.push({ type: 'delete', directory: this.resolve(directory), fileName });
+        return this;
+    }
+
+    /**
+     * Gets the staged operations, checking ownership and that every deleted file exists at that point.
+     * @throws Error if a directory is not writable or a deleted file does not exist.
+     */
+    public validate(): FsOperation[] {
+        const staged: Map<string, boolean> = new Map();
+        this.operations.forEach(operation => {
+            const key: string = `${operation.directory.dbId}/${operation.fileName}`;
+            if (!operation.directory.canWrite()) throw new Error(`Directory ${operation.directory.dbId} is not writable by this addon`);
+            const exists: boolean = staged.get(key) ?? operation.directory.exists(operation.fileName);
+            if (operation.type === 'delete' && !exists) throw new Error(`File ${operation.fileName} does not exist in ${operation.directory.dbId}`);
+            staged.set(key, operation.type === 'write');
+        });
+        return [...this.operations];
+    }
+
+    /**
+     * Creates a new, empty `FsTransaction`.
+     * @param dir The directory system used to resolve directory names.
+     */
+    public static create(dir: FsDir): FsTransaction { return new FsTransaction(dir); }
+}
+
+/**
+ * Represents a typed file, as opened by `FsSys.open` or `Directory.file`.
+ */
+export class FsFile<T = any> {
+    private constructor(
+        /** The directory holding the file. */
+        public readonly directory: Directory,
+        /** The name of the file within its directory. */
+        public readonly name: string,
+        /** The path the file was opened by. */
+        public readonly path: string,
+        private readonly codec: FsCodec<T>,
+        private readonly schema?: FsSchema
+    ) { }
+
+    /**
+     * Checks if the file exists.
+     */
+    public exists(): boolean {
+        return this.directory.exists(this.name);
+    }
+
+    /**
+     * Reads the content of the file, checking it against the schema and decoding it.
+     * @throws Error if the file does not exist, is missing chunks, or its directory is not shared with the addon.
+     * @throws FsFileError if the content is not valid JSON, fails the schema, or cannot be decoded.
+     */
+    public read(): T {
+        if (!this.exists()) throw new Error(`File ${this.path} does not exist`);
+        let data: any;
+        try {
+            data = this.directory.read(this.name);
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            throw new FsFileError(this.path, 'parse', `${error}`);
+        }
+        if (this.schema) {
+            let result: string | boolean | void;
+            try {
+                result = this.schema(data);
+            } catch (error) {
+                result = `schema threw: ${error}`;
+            }
+            if (result === false) throw new FsFileError(this.path, 'schema', 'failed validation');
+            if (typeof result === 'string') throw new FsFileError(this.path, 'schema', result);
+        }
+        try {
+            return this.codec.decode(data);
+        } catch (error) {
+            throw new FsFileError(this.path, 'decode', `${error}`);
+        }
+    }
+
+    /**
+     * Encodes and writes content to the file.
+     * @param content The content to write to the file.
+     * @param allowOverwrite Whether to allow overwriting an existing file (default: true).
+     */
+    public async write(content: T, allowOverwrite: boolean = true): Promise<void> {
+        return this.directory.write(this.name, this.codec.encode(content), allowOverwrite);
+    }
+
+    /**
+     * Deletes the file.
+     * @throws Error if the file does not exist.
+     */
+    public delete(): void {
+        this.directory.delete(this.name);
+    }
+
+    /**
+     * Gets the metadata of the file.
+     * @throws Error if the file does not exist.
+     */
+    public stat(): FsStat {
+        return { ...this.directory.stat(this.name), path: this.path };
+    }
+
+    /**
+     * Creates a new `FsFile` handle.
+     * @param directory The directory holding the file.
+     * @param name The name of the file within its directory.
+     * @param path The path the file was opened by.
+     * @param codec Converts the content to and from JSON (default: plain JSON).
+     * @param schema Checks the JSON data before it is decoded (optional).
+     */
+    public static create<T = any>(directory: Directory, name: string, path: string, codec: FsCodec<T> = FsCodecs.json<T>(), schema?: FsSchema): FsFile<T> {
+        return new FsFile(directory, name, path, codec, schema);
+    }
+}
+
+export class FsSys {
+    private static getLocalId(): string {
+        const addonData: AddonData | undefined = AcmLib.addonData;
+        if (!addonData) throw new Error('Addon data not found');
+        return `${addonData.description.author}_${addonData.description.packId}`;
+
+    }
+    private constructor(public readonly Dir: FsDir, private readonly scoreboard: AcmScoreboard, private readonly localId: () => string) { }
+
+    /**
+     * Gets the addon's meta directory, holding the journal; its objective is only created when writing.
+     * @param create Whether to create the objective if it does not exist.
+     */
+    private getMetaDirectory(create: boolean = false): Directory | undefined {
+        const objectiveName: string = `${META_DIR}.${this.localId().toUpperCase()}`;
+        const objective: AcmScoreboardObjective | undefined = this.scoreboard.getObjective(objectiveName) ?? (create ? this.scoreboard.addObjective(objectiveName) : undefined);
+        return objective ? Directory.create(objective, this.localId().toUpperCase()) : undefined;
     }
 
-    /**
-    * Displays your addon's page in the ACM (HUD) to the specified player.
-    * 
-    * @param player - The player to whom the addon form will be displayed.
-    */
-    public showAddonForm(player: Player): void {
-        system.sendScriptEvent('acm:hud_addon', `${JSON.stringify({ playerId: player.id, addonData: this.addonData, })}`);
+    private rollback(journal: FsJournal): void {
+        [...journal.entries].reverse().forEach(entry => {
+            const directory: Directory | undefined = this.Dir.getById(entry.dbId);
+            if (!directory) return;
+            if (entry.before !== null) directory.writeRaw(entry.fileName, entry.before);
+            else if (directory.exists(entry.fileName)) directory.delete(entry.fileName);
+        });
     }
 
     /**
-    * Loads the settings data for your addon.
-    * 
-    * @returns An object containing the settings data, organized by category or as a flat structure.
-    */
-    public loadSettingsData(): { [key: string]: any } {
-        if (!this.addonData) return {};
+     * Runs a transaction: operations staged by the callback are validated up front, then committed together.
+     * A journal is persisted during the commit; if any operation fails every touched file is restored,
+     * and a commit interrupted by a crash is rolled back by `recover` on the next world load.
+     * @param callback Stages the operations on the given transaction.
+     * @throws Error if validation or the commit fails; in either case no changes remain.
+     */
+    public transaction(callback: (tx: FsTransaction) => void): void {
+        this.recover();
+        const tx: FsTransaction = FsTransaction.create(this.Dir);
+        callback(tx);
+        const operations: FsOperation[] = tx.validate();
+        if (operations.length === 0) return;
 
-        const isCategory = this.isSettingsCatagory(this.addonData.settings as SettingsWidget[] | SettingsCatagory[]);
-        const settingsObject: { [key: string]: any } = {};
+        const journal: FsJournal = { entries: [] };
+        const touched: Set<string> = new Set();
+        operations.forEach(operation => {
+            const key: string = `${operation.directory.dbId}/${operation.fileName}`;
+            if (touched.has(key)) return;
+            touched.add(key);
+            journal.entries.push({ dbId: operation.directory.dbId, fileName: operation.fileName, before: operation.directory.readRaw(operation.fileName) ?? null });
+        });
 
-        if (isCategory) {
-            (this.addonData.settings as SettingsCatagory[]).forEach(category => {
-                settingsObject[category.title] = this.processCategorySettings(category);
+        const meta: Directory = this.getMetaDirectory(true)!;
+        meta.writeRaw(JOURNAL_FILE, JSON.stringify(journal));
+        try {
+            operations.forEach(operation => {
+                if (operation.type === 'write') operation.directory.writeRaw(operation.fileName, operation.data);
+                else operation.directory.delete(operation.fileName);
             });
-        } else {
-            Object.assign(settingsObject, this.processFlatSettings());
+        } catch (error) {
+            this.rollback(journal);
+            meta.delete(JOURNAL_FILE);
+            throw error;
         }
-
-        return settingsObject;
+        meta.delete(JOURNAL_FILE);
     }
 
     /**
-    * Emits a custom event to OnCustomSignalEmittedEvent subscribers.
-    * 
-    * @param eventId - The unique identifier for the event.
-    * @param data - Optional data to include with the event.
-    */
-    public emit(eventId: string, data?: any): void {
-        const eventKey: string = `acm:signal.${this.addonData?.description.author}_${this.addonData?.description.packId}.${eventId}`
-        let dataKey: any = 'void';
-        if (data) dataKey = JSON.stringify(data);
-        system.sendScriptEvent(eventKey.toLocaleUpperCase(), dataKey);
+     * Rolls back a transaction whose commit was interrupted, if its journal is still present.
+     * @returns True if an interrupted transaction was rolled back, false otherwise.
+     */
+    public recover(): boolean {
+        const meta: Directory | undefined = this.getMetaDirectory();
+        const journal: string | undefined = meta?.readRaw(JOURNAL_FILE);
+        if (!meta || journal === undefined) return false;
+        this.rollback(JSON.parse(journal) as FsJournal);
+        meta.delete(JOURNAL_FILE);
+        return true;
     }
-}
 
+    private splitFilePath(path: string): { directory: string, fileName: string } {
+        const segments: string[] = splitPath(path);
+        if (segments.length < 2) throw new Error(`Path ${path} must name a directory and a file`);
+        return { directory: segments.slice(0, -1).join('/'), fileName: segments[segments.length - 1] };
+    }
 
-class Events {
-    private constructor() {
-        this.OnAddonReady = OnAddonReadyEventSignal.create();
-        this.OnSettingsChanged = OnSettingsChangedEventSignal.create();
-        this.OnExtensionTriggerd = OnExtensionTriggerdEventSignal.create();
-        this.OnCustomSignalEmitted = OnCustomSignalEmittedEventSignal.create();
+    /**
+     * Opens a file by its path.
+     * @param path The `/`-separated path of the file, e.g. `quests/active/q12`.
+     * @param create Whether to create missing directories along the path (default: false).
+     * @param codec Converts the content to and from JSON (default: plain JSON).
+     * @param schema Checks the JSON data before it is decoded (optional).
+     * @returns A handle to the file, which need not exist yet.
+     * @throws Error if the directory of the file does not exist and `create` is false.
+     */
+    public open<T = any>(path: string, create: boolean = false, codec?: FsCodec<T>, schema?: FsSchema): FsFile<T> {
+        const { directory, fileName } = this.splitFilePath(path);
+        validateFileName(fileName);
+        const dir: Directory | undefined = create ? this.Dir.new(directory, true, true) : this.Dir.get(directory);
+        if (!dir) throw new Error(`Directory ${directory} does not exist`);
+        return FsFile.create(dir, fileName, `${this.Dir.pathOf(dir.dbId)}/${fileName}`, codec, schema);
+    }
 
+    /**
+     * Checks if a file or directory exists.
+     * @param path The `/`-separated path of the file or directory.
+     * @returns True if the path names a directory or an existing file, false otherwise.
+     */
+    public exists(path: string): boolean {
+        const segments: string[] = splitPath(path);
+        if (segments.length === 0 || this.Dir.isValid(path)) return true;
+        if (segments.length < 2) return false;
+        const { directory, fileName } = this.splitFilePath(path);
+        return this.Dir.get(directory)?.exists(fileName) ?? false;
     }
-    readonly OnAddonReady: OnAddonReadyEventSignal;
-    readonly OnSettingsChanged: OnSettingsChangedEventSignal;
-    readonly OnExtensionTriggerd: OnExtensionTriggerdEventSignal;
-    readonly OnCustomSignalEmitted: OnCustomSignalEmittedEventSignal;
 
-    static create(): Events {
-        return new Events();
+    /**
+     * Gets the metadata of a file or directory.
+     * @param path The `/`-separated path of the file or directory.
+     * @returns The type, size and creation and modification ticks of the entry.
+     * @throws Error if nothing exists at the path.
+     */
+    public stat(path: string): FsStat {
+        const directory: Directory | undefined = splitPath(path).length > 0 ? this.Dir.get(path) : undefined;
+        if (directory) {
+            const files: FsStat[] = directory.list().map(fileName => directory.stat(fileName));
+            const created: number[] = files.map(file => file.created).filter((tick): tick is number => tick !== undefined);
+            const modified: number[] = files.map(file => file.modified).filter((tick): tick is number => tick !== undefined);
+            return {
+                type: 'directory',
+                path: this.Dir.pathOf(directory.dbId),
+                size: directory.size(),
+                created: created.length > 0 ? Math.min(...created) : undefined,
+                modified: modified.length > 0 ? Math.max(...modified) : undefined
+            };
+        }
+        const file: FsFile = this.open(path);
+        if (!file.exists()) throw new Error(`File ${path} does not exist`);
+        return file.stat();
     }
-}
 
-export class OnAddonReadyEvent {
     /**
-     * Represents the event triggered when your addon is ready.
-     * @param addonData The data associated with the addon.
+     * Lists the files and sub-directories of a directory.
+     * @param path The `/`-separated path of the directory (default: the root, which holds only directories).
+     * @param options Filters the entries by `prefix`, glob `pattern` and `type`, and whether to recurse into sub-directories.
+     * @returns The paths of the entries, relative to `path`.
+     * @throws Error if the directory does not exist.
      */
-    private constructor(public readonly addonData: AddonData) { }
+    public list(path: string = '', options: FsListOptions = {}): string[] {
+        const root: string = splitPath(path).join('/');
+        if (root.length > 0 && !this.Dir.isValid(root) && this.Dir.children(root).length === 0) throw new Error(`Directory ${path} does not exist`);
+
+        const entries: string[] = [];
+        const include = (relative: string, type: 'file' | 'directory') => {
+            if ((options.type === undefined || options.type === type) && matchesListOptions(relative, options)) entries.push(relative);
+        };
+        const visit = (directory: string, relative: string) => {
+            const join = (name: string): string => relative.length > 0 ? `${relative}/${name}` : name;
+            if (directory.length > 0) this.Dir.get(directory)?.list().forEach(fileName => include(join(fileName), 'file'));
+            this.Dir.children(directory).forEach(child => {
+                include(join(child), 'directory');
+                if (options.recursive) visit(directory.length > 0 ? `${directory}/${child}` : child, join(child));
+            });
+        };
+        visit(root, '');
+        return entries;
+    }
 
     /**
-     * Creates a new instance of the `OnAddonReadyEvent`.
-     * @param addonData The data associated with the addon.
-     * @returns A new `OnAddonReadyEvent` instance.
+     * Creates a new instance of the `FsSys` class.
+     * Provides access to the directory system for managing scoreboard-based data.
+     * @param scoreboard The scoreboard the directories are stored in (default: the world scoreboard).
+     * @param getLocalId Resolves the identifier of the owning addon (default: the `AcmLib` addon).
+     * @param clock Returns the current tick, used to bound how often directory indexes rescan (default: the system tick).
      */
-    static create(addonData: AddonData): OnAddonReadyEvent {
-        return new OnAddonReadyEvent(addonData);
+    public static create(scoreboard: AcmScoreboard = DEFAULT_HOST.world.scoreboard, getLocalId: () => string = FsSys.getLocalId, clock: () => number | undefined = () => DEFAULT_HOST.system.currentTick): FsSys {
+        const format = (name: string, owner: string = getLocalId()): string => { return `${ROOT_DIR}.${owner.toUpperCase()}.${name.toUpperCase()}` };
+        return new FsSys(FsDir.create(scoreboard, format, () => getLocalId().toUpperCase(), clock), scoreboard, getLocalId);
     }
 }
 
 /**
- * Represents an event that is triggered when a custom signal is emitted.
- */
-/**
- * Represents an event triggered when a custom signal is emitted.
+ * Holds the in-memory index of a directory: file name -> entry participants, file name -> chunk participants,
+ * file name -> stat participant, the access participant, and parsed content keyed by entry participant (an entry's name encodes its content, so cached values never go stale).
  */
-export class OnCustomSignalEmittedEvent {
-    /**
-     * Constructs an instance of `OnCustomSignalEmittedEvent`.
-     * This constructor is private to enforce the use of the `create` method for instantiation.
-     * 
-     * @param addonId - The unique identifier of the addon emitting the signal.
-     * @param emitterId - The unique identifier of the emitter within the addon.
-     * @param data - Optional additional data associated with the emitted signal.
-     */
-    private constructor(public readonly addonId: string, public readonly emitterId: string, public readonly data?: any) { }
+class DirectoryIndex {
+    /** Whether parsed file content is cached. */
+    public cacheReads: boolean = false;
+    public files: Map<string, string[]> | undefined = undefined;
+    public chunks: Map<string, string[]> = new Map();
+    public stats: Map<string, string> = new Map();
+    public access: string | undefined = undefined;
+    public readonly parsed: Map<string, any> = new Map();
+    private builtTick: number | undefined = undefined;
+
+    private constructor(private readonly clock: () => number | undefined) { }
 
     /**
-     * Factory method to create an instance of `OnCustomSignalEmittedEvent`.
-     * 
-     * @param addonId - The unique identifier of the addon emitting the signal.
-     * @param emitterId - The unique identifier of the emitter within the addon.
-     * @param data - Optional additional data associated with the emitted signal.
-     * @returns A new instance of `OnCustomSignalEmittedEvent`.
+     * Replaces the index with a fresh scan, keeping only cached content whose entry still exists.
      */
-    static create(addonId: string, emitterId: string, data?: any): OnCustomSignalEmittedEvent {
-        return new OnCustomSignalEmittedEvent(addonId, emitterId, data);
+    public reset(files: Map<string, string[]>, chunks: Map<string, string[]>, stats: Map<string, string>, access: string | undefined): void {
+        this.files = files;
+        this.chunks = chunks;
+        this.stats = stats;
+        this.access = access;
+        this.builtTick = this.clock();
+        const live: Set<string> = new Set([...files.values()].flat());
+        [...this.parsed.keys()].filter(key => !live.has(key)).forEach(key => this.parsed.delete(key));
     }
-}
 
-export class OnSettingsChangedEvent {
     /**
-     * Represents the event triggered when addon settings are changed.
-     * @param settingsData The updated settings data.
-     * @param player The player who triggered the settings change (optional).
+     * Checks if the index may be missing external changes: it was built on an earlier tick, no clock is available,
+     * or the directory is shared and other addons may have written to it.
      */
-    private constructor(public readonly settingsData: any, public readonly player?: Player) { }
+    public isStale(): boolean {
+        const tick: number | undefined = this.clock();
+        return tick === undefined || tick !== this.builtTick || this.access !== undefined;
+    }
+
+    public invalidate(): void {
+        this.files = undefined;
+    }
 
     /**
-     * Creates a new instance of the `OnSettingsChangedEvent`.
-     * @param settingsData The updated settings data.
-     * @param player The player who triggered the settings change (optional).
-     * @returns A new `OnSettingsChangedEvent` instance.
+     * Gets the current tick, or undefined if unknown.
      */
-    static create(settingsData: any, player?: Player): OnSettingsChangedEvent {
-        return new OnSettingsChangedEvent(settingsData, player);
+    public now(): number | undefined {
+        return this.clock();
     }
-}
 
-export class OnExtensionTriggerdEvent {
     /**
-     * Represents the event triggered when an extension is activated.
-     * @param extensionId The unique identifier of the triggered extension.
-     * @param player The player who triggered the extension.
+     * Creates a new, unbuilt `DirectoryIndex`.
+     * @param clock Returns the current tick, or undefined if unknown.
      */
-    private constructor(public readonly extensionId: string, public readonly player: Player) { }
+    public static create(clock: () => number | undefined = () => undefined): DirectoryIndex { return new DirectoryIndex(clock); }
+}
 
+export class Directory {
     /**
-     * Creates a new instance of the `OnExtensionTriggerdEvent`.
-     * @param extensionId The unique identifier of the triggered extension.
-     * @param player The player who triggered the extension.
-     * @returns A new `OnExtensionTriggerdEvent` instance.
+     * The unique identifier for the directory (scoreboard objective).
      */
-    static create(extensionId: string, player: Player): OnExtensionTriggerdEvent {
-        return new OnExtensionTriggerdEvent(extensionId, player);
+    public readonly dbId: string;
+
+    private constructor(private readonly objective: AcmScoreboardObjective, private readonly localId: string, private readonly index: DirectoryIndex) {
+        this.dbId = objective.displayName;
     }
-}
 
-class OnAddonReadyEventSignal {
-    private static subscribers: Set<(arg: OnAddonReadyEvent) => void> = new Set();
+    private static getLocalId(): string {
+        const addonData: AddonData | undefined = AcmLib.addonData;
+        if (!addonData) throw new Error('Addon data not found');
+        const localId: string = `${addonData.description.author}_${addonData.description.packId}`
+        return localId.toUpperCase();
+    }
 
-    private constructor() { }
+    /**
+     * The maximum length of a single participant name. Files whose `fileName:JSON` entry is longer
+     * are split into chunk entries (`:fileName:chunkId:index:segment`) behind a manifest entry (`fileName::{...}`).
+     * Creation and modification ticks are kept in a stat entry (`::fileName:{...}`), and access granted
+     * to other addons in a single access entry (`:::{...}`).
+     */
+    public static maxEntryLength: number = 32000;
 
-    static create(): OnAddonReadyEventSignal {
-        return new OnAddonReadyEventSignal();
+    private rebuildIndex(): void {
+        const files: Map<string, string[]> = new Map();
+        const chunks: Map<string, string[]> = new Map();
+        const stats: Map<string, string> = new Map();
+        let access: string | undefined = undefined;
+        const add = (map: Map<string, string[]>, fileName: string, entry: string) => map.set(fileName, [...(map.get(fileName) ?? []), entry]);
+        this.objective.getParticipants().forEach((p: AcmScoreboardIdentity) => {
+            const name: string = p.displayName;
+            if (name.startsWith('::')) {
+                const separator: number = name.indexOf(':', 2);
+                if (separator > 2) stats.set(name.slice(2, separator), name);
+                else if (separator === 2) access = name;
+                return;
+            }
+            const isChunk: boolean = name.startsWith(':');
+            const separator: number = name.indexOf(':', isChunk ? 1 : 0);
+            if (separator < 0) return;
+            if (isChunk) add(chunks, name.slice(1, separator), name);
+            else add(files, name.slice(0, separator), name);
+        });
+        this.index.reset(files, chunks, stats, access);
     }
 
-    public subscribe(callback: (arg: OnAddonReadyEvent) => void): (arg: OnAddonReadyEvent) => void {
-        OnAddonReadyEventSignal.subscribers.add(callback);
-        return callback;
+    private refreshIndex(): Map<string, string[]> {
+        if (!this.index.files || this.index.isStale()) this.rebuildIndex();
+        return this.index.files!;
     }
 
-    public unsubscribe(callback: (arg: OnAddonReadyEvent) => void): void {
-        OnAddonReadyEventSignal.subscribers.delete(callback);
+    /**
+     * Gets the entry participants of a file. Known entries are verified in O(1) and trigger a rescan if they
+     * were changed externally; unknown files trigger a rescan at most once per tick.
+     */
+    private getKeyEntries(fileName: string): string[] {
+        if (!this.index.files) this.rebuildIndex();
+        const entries: string[] | undefined = this.index.files!.get(fileName);
+        if (entries && entries.every(entry => this.objective.hasParticipant(entry))) return entries;
+        if (entries || this.index.isStale()) this.rebuildIndex();
+        return this.index.files!.get(fileName) ?? [];
     }
 
-    public static emit(event: OnAddonReadyEvent): void {
-        for (const callback of this.subscribers) {
-            try {
-                callback(event);
-            } catch (error) {
-                console.error("Error @ACM:OnAddonReadyEvent global subscriber:", error);
-            }
-        }
+    private getKeyEntry(fileName: string): string | undefined {
+        this.checkRead();
+        return this.getKeyEntries(fileName)[0];
     }
-}
 
-class OnCustomSignalEmittedEventSignal {
-    private static subscribers: Set<(arg: OnCustomSignalEmittedEvent) => void> = new Set();
+    private getKeyData(fileName: string, entry: string): any {
+        if (this.index.cacheReads && this.index.parsed.has(entry)) return this.index.parsed.get(entry);
+        const content: any = JSON.parse(this.getKeyRawData(fileName, entry));
+        if (this.index.cacheReads) this.index.parsed.set(entry, content);
+        return content;
+    }
 
-    private constructor() { }
+    private getKeyRawData(fileName: string, entry: string): string {
+        const raw: string = entry.slice(fileName.length + 1);
+        if (!raw.startsWith(':')) return raw;
+        const manifest = JSON.parse(raw.slice(1)) as { chunks: number, id: string };
+        return this.readChunks(fileName, manifest);
+    }
 
-    static create(): OnCustomSignalEmittedEventSignal {
-        return new OnCustomSignalEmittedEventSignal();
+    private chunkPrefix(fileName: string, chunkId?: string): string {
+        return chunkId === undefined ? `:${fileName}:` : `:${fileName}:${chunkId}:`;
     }
 
-    public subscribe(callback: (arg: OnCustomSignalEmittedEvent) => void): (arg: OnCustomSignalEmittedEvent) => void {
-        OnCustomSignalEmittedEventSignal.subscribers.add(callback);
-        return callback;
+    private getChunkEntries(fileName: string, chunkId: string): string[] {
+        const prefix: string = this.chunkPrefix(fileName, chunkId);
+        return (this.index.chunks.get(fileName) ?? []).filter(entry => entry.startsWith(prefix));
     }
 
-    public unsubscribe(callback: (arg: OnCustomSignalEmittedEvent) => void): void {
-        OnCustomSignalEmittedEventSignal.subscribers.delete(callback);
+    private readChunks(fileName: string, manifest: { chunks: number, id: string }): string {
+        let entries: string[] = this.getChunkEntries(fileName, manifest.id);
+        if (entries.length !== manifest.chunks || !entries.every(entry => this.objective.hasParticipant(entry))) {
+            this.rebuildIndex();
+            entries = this.getChunkEntries(fileName, manifest.id);
+        }
+
+        const prefix: string = this.chunkPrefix(fileName, manifest.id);
+        const segments: string[] = [];
+        entries.forEach(name => {
+            const entry: string = name.slice(prefix.length);
+            const separator: number = entry.indexOf(':');
+            segments[parseInt(entry.slice(0, separator), 10)] = entry.slice(separator + 1);
+        });
+        if (entries.length !== manifest.chunks || segments.length !== manifest.chunks) throw new Error(`File ${fileName} is corrupted: missing chunks`);
+        return segments.join('');
     }
 
-    public static emit(event: OnCustomSignalEmittedEvent): void {
-        for (const callback of this.subscribers) {
-            try {
-                callback(event);
-            } catch (error) {
-                console.error("Error @ACM:OnCustomSignalEmittedEvent global subscriber:", error);
+    private writeChunks(fileName: string, data: string): { chunks: number, id: string } {
+        const chunkId: string = Math.random().toString(36).slice(2, 8);
+        const prefix: string = this.chunkPrefix(fileName, chunkId);
+        const segmentLength: number = Directory.maxEntryLength - prefix.length - 8;
+        if (segmentLength <= 0) throw new Error(`File name ${fileName} is too long`);
+
+        const written: string[] = [];
+        try {
+            for (let start = 0; start < data.length; start += segmentLength) {
+                const entry: string = `${prefix}${written.length}:${data.slice(start, start + segmentLength)}`;
+                this.objective.setScore(entry, written.length);
+                written.push(entry);
             }
+        } catch (error) {
+            written.forEach(entry => this.objective.removeParticipant(entry));
+            throw error;
         }
+        this.index.chunks.set(fileName, [...(this.index.chunks.get(fileName) ?? []), ...written]);
+        return { chunks: written.length, id: chunkId };
     }
-}
 
-class OnSettingsChangedEventSignal {
-    private static subscribers: Set<(arg: OnSettingsChangedEvent) => void> = new Set();
+    private removeChunks(fileName: string, chunkId?: string, keepChunkId?: string): void {
+        const prefix: string = this.chunkPrefix(fileName, chunkId);
+        const keepPrefix: string | undefined = keepChunkId === undefined ? undefined : this.chunkPrefix(fileName, keepChunkId);
+        const entries: string[] = this.index.chunks.get(fileName) ?? [];
+        const removed: string[] = entries.filter(entry => entry.startsWith(prefix) && !(keepPrefix && entry.startsWith(keepPrefix)));
+        removed.forEach(entry => this.objective.removeParticipant(entry));
 
-    private constructor() { }
+        const remaining: string[] = entries.filter(entry => !removed.includes(entry));
+        if (remaining.length > 0) this.index.chunks.set(fileName, remaining);
+        else this.index.chunks.delete(fileName);
+    }
 
-    static create(): OnSettingsChangedEventSignal {
-        return new OnSettingsChangedEventSignal();
+    private getStatEntry(fileName: string): string | undefined {
+        let entry: string | undefined = this.index.stats.get(fileName);
+        if (entry && !this.objective.hasParticipant(entry)) {
+            this.rebuildIndex();
+            entry = this.index.stats.get(fileName);
+        }
+        return entry;
     }
 
-    public subscribe(callback: (arg: OnSettingsChangedEvent) => void): (arg: OnSettingsChangedEvent) => void {
-        OnSettingsChangedEventSignal.subscribers.add(callback);
-        return callback;
+    private readStat(fileName: string): { created: number, modified: number } | undefined {
+        const entry: string | undefined = this.getStatEntry(fileName);
+        return entry ? JSON.parse(entry.slice(fileName.length + 3)) : undefined;
     }
 
-    public unsubscribe(callback: (arg: OnSettingsChangedEvent) => void): void {
-        OnSettingsChangedEventSignal.subscribers.delete(callback);
+    /**
+     * Records the current tick as the file's modification tick, keeping its creation tick unless one is given.
+     * Nothing is recorded if the directory has no clock.
+     */
+    private writeStat(fileName: string, created?: number): void {
+        const tick: number | undefined = this.index.now();
+        if (tick === undefined) return;
+        const previous: string | undefined = this.getStatEntry(fileName);
+        const stat = { created: created ?? this.readStat(fileName)?.created ?? tick, modified: tick };
+        const entry: string = `::${fileName}:${JSON.stringify(stat)}`;
+        if (entry === previous) return;
+        this.objective.setScore(entry, 0);
+        if (previous) this.objective.removeParticipant(previous);
+        this.index.stats.set(fileName, entry);
     }
 
-    public static emit(event: OnSettingsChangedEvent): void {
-        for (const callback of this.subscribers) {
-            try {
-                callback(event);
-            } catch (error) {
-                console.error("Error @ACM:OnSettingsChangedEvent global subscriber:", error);
-            }
-        }
+    private removeStat(fileName: string): void {
+        const entry: string | undefined = this.getStatEntry(fileName);
+        if (entry) this.objective.removeParticipant(entry);
+        this.index.stats.delete(fileName);
     }
-}
 
-class OnExtensionTriggerdEventSignal {
-    private static subscribers: Set<(arg: OnExtensionTriggerdEvent) => void> = new Set();
+    /**
+     * Writes raw JSON to a file, replacing any previous entry and chunks only once the new entry is in place.
+     * @param created The creation tick to record, if the file is being recreated under a new name.
+     */
+    private writeEntry(fileName: string, data: string, created?: number): void {
+        const previous: string[] = this.getKeyEntries(fileName);
+        const slotNumber: number = previous.length > 0 ? this.objective.getScore(previous[0]) ?? 0 : this.refreshIndex().size;
+
+        let entryKey: string = `${fileName}:${data}`;
+        let chunkId: string | undefined = undefined;
+        if (entryKey.length > Directory.maxEntryLength) {
+            // Chunks are written before the manifest, so a partial write never produces a readable file.
+            const manifest = this.writeChunks(fileName, data);
+            chunkId = manifest.id;
+            entryKey = `${fileName}::${JSON.stringify(manifest)}`;
+        }
+        try {
+            this.objective.setScore(entryKey, slotNumber);
+        } catch (error) {
+            if (chunkId !== undefined) this.removeChunks(fileName, chunkId);
+            throw error;
+        }
 
-    private constructor() { }
+        previous.filter(entry => entry !== entryKey).forEach(entry => this.objective.removeParticipant(entry));
+        this.index.files?.set(fileName, [entryKey]);
+        this.removeChunks(fileName, undefined, chunkId);
+        this.writeStat(fileName, created);
+    }
 
-    static create(): OnExtensionTriggerdEventSignal {
-        return new OnExtensionTriggerdEventSignal();
+    private removeEntry(fileName: string): void {
+        // Entries are removed before chunks, so an interrupted delete leaves only unreachable chunks.
+        this.getKeyEntries(fileName).forEach(entry => this.objective.removeParticipant(entry));
+        this.index.files?.delete(fileName);
+        this.removeChunks(fileName);
+        this.removeStat(fileName);
     }
 
-    public subscribe(callback: (arg: OnExtensionTriggerdEvent) => void): (arg: OnExtensionTriggerdEvent) => void {
-        OnExtensionTriggerdEventSignal.subscribers.add(callback);
-        return callback;
+    /**
+     * Runs each step in order; if one throws, undoes the completed steps in reverse order and rethrows.
+     */
+    private atomically(steps: { run: () => void, undo: () => void }[]): void {
+        const completed: { run: () => void, undo: () => void }[] = [];
+        try {
+            for (const step of steps) {
+                step.run();
+                completed.push(step);
+            }
+        } catch (error) {
+            completed.reverse().forEach(step => {
+                try {
+                    step.undo();
+                } catch (undoError) {
+                    console.error(`Error @ACM:Directory ${this.dbId} rollback:`, undoError);
+                }
+            });
+            throw error;
+        }
     }
 
-    public unsubscribe(callback: (arg: OnExtensionTriggerdEvent) => void): void {
-        OnExtensionTriggerdEventSignal.subscribers.delete(callback);
+    private isOwner(): boolean {
+        // Directories are named `<ROOT>.<OWNER>[.<PATH>]`.
+        const owner: string = this.dbId.slice(this.dbId.indexOf('.') + 1);
+        return owner === this.localId || owner.startsWith(`${this.localId}.`);
     }
 
-    public static emit(event: OnExtensionTriggerdEvent): void {
-        for (const callback of this.subscribers) {
-            try {
-                callback(event);
-            } catch (error) {
-                console.error("Error @ACM:OnExtensionTriggerdEvent global subscriber:", error);
-            }
+    private readAccess(): Record<string, FsAccess> {
+        if (!this.index.files) this.rebuildIndex();
+        let entry: string | undefined = this.index.access;
+        if (entry && !this.objective.hasParticipant(entry)) {
+            this.rebuildIndex();
+            entry = this.index.access;
         }
+        return entry ? JSON.parse(entry.slice(3)) : {};
     }
-}
 
-// Fs
+    private writeAccess(grants: Record<string, FsAccess>): void {
+        const previous: string | undefined = this.index.access;
+        const entry: string | undefined = Object.keys(grants).length > 0 ? `:::${JSON.stringify(grants)}` : undefined;
+        if (entry === previous) return;
+        if (entry) this.objective.setScore(entry, 0);
+        if (previous && this.objective.hasParticipant(previous)) this.objective.removeParticipant(previous);
+        this.index.access = entry;
+    }
 
-const ROOT_DIR = `ACM:FS`;
+    private hasAccess(accepts: (access: FsAccess | undefined) => boolean): boolean {
+        if (accepts(this.readAccess()[this.localId])) return true;
+        // Access may have been granted by the owner since the index was built, so a denial is confirmed by a rescan.
+        this.rebuildIndex();
+        return accepts(this.readAccess()[this.localId]);
+    }
 
-export class FsSys {
-    private static _sb: Scoreboard = world.scoreboard;
-    private static getLocalId(): string {
-        const addonData: AddonData | undefined = AcmLib.addonData;
-        if (!addonData) throw new Error('Addon data not found');
-        return `${addonData.description.author}_${addonData.description.packId}`;
+    private checkRead(): void {
+        if (!this.canRead()) throw new Error(`Directory ${this.dbId} is not shared with addon: ${this.localId}`);
+    }
 
+    private isWritable(): boolean {
+        if (this.canWrite()) return true;
+        if (this.canRead()) throw new Error(`Directory ${this.dbId} is shared read-only with addon: ${this.localId}`);
+        throw new Error(`Directory ${this.dbId} does not belong to addon: ${this.localId}`);
     }
-    private static _format: (name: string) => string = ((name: string): string => { return `${ROOT_DIR}.${FsSys.getLocalId().toUpperCase()}.${name.toUpperCase()}` });
-    private constructor(public readonly Dir: FsDir = FsDir.create(FsSys._sb, FsSys._format)) { }
+
     /**
-     * Creates a new instance of the `FsSys` class.
-     * Provides access to the directory system for managing scoreboard-based data.
+     * Checks if the accessing addon may read the directory.
+     * @returns True if the directory belongs to the accessing addon or was shared with it, false otherwise.
      */
-    public static create(): FsSys { return new FsSys(); }
-}
+    public canRead(): boolean {
+        return this.isOwner() || this.hasAccess(access => access !== undefined);
+    }
 
-export class Directory {
     /**
-     * The unique identifier for the directory (scoreboard objective).
+     * Checks if the accessing addon may write to the directory.
+     * @returns True if the directory belongs to the accessing addon or was shared with it for writing, false otherwise.
      */
-    public readonly dbId: string;
-    private readonly localId: string = (() => {
-        const addonData: AddonData | undefined = AcmLib.addonData;
-        if (!addonData) throw new Error('Addon data not found');
-        const localId: string = `${addonData.description.author}_${addonData.description.packId}`
-        return localId.toUpperCase();
-
-    })();
-
-    private constructor(private readonly objective: ScoreboardObjective) {
-        this.dbId = objective.displayName;
+    public canWrite(): boolean {
+        return this.isOwner() || this.hasAccess(access => access === 'write');
     }
 
-    private getKeyIdentity(fileName: string): ScoreboardIdentity | undefined {
-        const participants = this.objective.getParticipants();
-        return participants.find((p: ScoreboardIdentity) => p.displayName.startsWith(`${fileName}:`));
+    /**
+     * Gets the access granted to other addons.
+     * @returns The access of each addon identifier (`author_packId`) the directory is shared with.
+     * @throws Error if the directory is not readable by the accessing addon.
+     */
+    public getGrants(): Record<string, FsAccess> {
+        this.checkRead();
+        return this.readAccess();
     }
 
-    private getKeyData(fileName: string, identity: ScoreboardIdentity): any {
-        return JSON.parse(identity.displayName.replace(`${fileName}:`, ''));
+    /**
+     * Shares the directory with another addon, replacing any access previously granted to it.
+     * @param addonId The identifier (`author_packId`) of the addon.
+     * @param access Whether the addon may only read or also write the directory.
+     * @throws Error if the directory does not belong to the accessing addon.
+     */
+    public grant(addonId: string, access: FsAccess): void {
+        if (!this.isOwner()) throw new Error(`Only the owner of directory ${this.dbId} may share it`);
+        if (access !== 'read' && access !== 'write') throw new Error(`Invalid access ${access}`);
+        this.writeAccess({ ...this.readAccess(), [addonId.toUpperCase()]: access });
     }
 
-    private isOwner(): boolean {
-        const localId: string = this.localId;
-        if (!this.dbId.includes(localId)) throw new Error(`Directory ${this.dbId} does not belong to addon: ${localId}`);
-        return true;
+    /**
+     * Stops sharing the directory with another addon.
+     * @param addonId The identifier (`author_packId`) of the addon.
+     * @throws Error if the directory does not belong to the accessing addon.
+     */
+    public revoke(addonId: string): void {
+        if (!this.isOwner()) throw new Error(`Only the owner of directory ${this.dbId} may share it`);
+        const grants: Record<string, FsAccess> = this.readAccess();
+        delete grants[addonId.toUpperCase()];
+        this.writeAccess(grants);
     }
 
     /**
@@ -591,7 +4265,7 @@ export class Directory {
      * @returns True if the file exists, false otherwise.
      */
     public exists(fileName: string): boolean {
-        return this.getKeyIdentity(fileName) !== undefined;
+        return this.getKeyEntry(fileName) !== undefined;
     }
 
     /**
@@ -601,10 +4275,31 @@ export class Directory {
      * @throws Error if the file does not exist.
      */
     public read(fileName: string): any {
-        if (!this.exists(fileName)) throw new Error(`File ${fileName} does not exist`);
-        const identity: ScoreboardIdentity | undefined = this.getKeyIdentity(fileName);
-        if (!identity) throw new Error(`File ${fileName} does not exist`);
-        return this.getKeyData(fileName, identity);
+        const entry: string | undefined = this.getKeyEntry(fileName);
+        if (!entry) throw new Error(`File ${fileName} does not exist`);
+        return this.getKeyData(fileName, entry);
+    }
+
+    /**
+     * Reads the raw JSON of a file without parsing it.
+     * @param fileName The name of the file to read.
+     * @returns The raw JSON of the file, or undefined if it does not exist.
+     */
+    public readRaw(fileName: string): string | undefined {
+        const entry: string | undefined = this.getKeyEntry(fileName);
+        return entry ? this.getKeyRawData(fileName, entry) : undefined;
+    }
+
+    /**
+     * Writes raw JSON to a file, replacing any existing content.
+     * @param fileName The name of the file to write.
+     * @param data The raw JSON to write.
+     * @throws Error if the file name is invalid or the directory does not belong to the addon.
+     */
+    public writeRaw(fileName: string, data: string): void {
+        validateFileName(fileName);
+        if (!this.isWritable()) return;
+        this.writeEntry(fileName, data);
     }
 
     /**
@@ -612,16 +4307,18 @@ export class Directory {
      * @param fileName The name of the file to write.
      * @param content The content to write to the file.
      * @param allowOverwrite Whether to allow overwriting an existing file (default: true).
+     * @throws Error if the file name is empty or contains `:`.
+     * @throws Error if the content cannot be serialized to JSON.
      * @throws Error if the file already exists and overwriting is not allowed.
      */
     public async write(fileName: string, content: any, allowOverwrite: boolean = true): Promise<void> {
-        const dataKey: string = `${fileName}:${JSON.stringify(content)}`;
+        validateFileName(fileName);
+        const data: string = serializeContent(fileName, content);
         if (this.exists(fileName) && !allowOverwrite) throw new Error(`File ${fileName} already exists`);
 
-        if (!this.isOwner()) return;
+        if (!this.isWritable()) return;
 
-        const slotNumber: number = this.objective.getParticipants().length;
-        this.objective.setScore(dataKey, slotNumber);
+        this.writeEntry(fileName, data);
     }
 
     /**
@@ -632,61 +4329,78 @@ export class Directory {
     public delete(fileName: string): void {
         if (!this.exists(fileName)) throw new Error(`File ${fileName} does not exist`);
 
-        if (!this.isOwner()) return;
+        if (!this.isWritable()) return;
 
-        const identity: ScoreboardIdentity | undefined = this.getKeyIdentity(fileName);
-        if (!identity) throw new Error(`File ${fileName} does not exist`);
-        this.objective.removeParticipant(identity);
+        this.removeEntry(fileName);
     }
 
     /**
-     * Renames a file in the directory.
+     * Renames a file in the directory. The file is written under its new name before the old entry is
+     * removed, and the rename is rolled back if either step fails.
      * @param oldFileName The current name of the file.
      * @param newFileName The new name for the file.
-     * @throws Error if the old file does not exist or the new file already exists.
+     * @throws Error if the old file does not exist, the new file already exists, or the new name is invalid.
      */
     public rename(oldFileName: string, newFileName: string): void {
+        validateFileName(newFileName);
         if (!this.exists(oldFileName)) throw new Error(`File ${oldFileName} does not exist`);
         if (this.exists(newFileName)) throw new Error(`File ${newFileName} already exists`);
 
-        if (!this.isOwner()) return;
+        if (!this.isWritable()) return;
 
-        const identity: ScoreboardIdentity | undefined = this.getKeyIdentity(oldFileName);
-        if (!identity) throw new Error(`File ${oldFileName} does not exist`);
-        const content = this.getKeyData(oldFileName, identity);
-        this.delete(oldFileName);
-        this.write(newFileName, content);
+        const entry: string | undefined = this.getKeyEntry(oldFileName);
+        if (!entry) throw new Error(`File ${oldFileName} does not exist`);
+        const data: string = this.getKeyRawData(oldFileName, entry);
+        const created: number | undefined = this.readStat(oldFileName)?.created;
+        this.atomically([
+            { run: () => this.writeEntry(newFileName, data, created), undo: () => this.removeEntry(newFileName) },
+            { run: () => this.removeEntry(oldFileName), undo: () => this.writeEntry(oldFileName, data, created) }
+        ]);
     }
 
     /**
-     * Copies a file within the directory.
+     * Copies a file within the directory. A failed copy leaves no partial destination file.
      * @param sourceFileName The name of the source file.
      * @param destinationFileName The name of the destination file.
-     * @throws Error if the source file does not exist or the destination file already exists.
+     * @throws Error if the source file does not exist, the destination file already exists, or the destination name is invalid.
      */
     public copy(sourceFileName: string, destinationFileName: string): void {
+        validateFileName(destinationFileName);
         if (!this.exists(sourceFileName)) throw new Error(`Source file ${sourceFileName} does not exist`);
         if (this.exists(destinationFileName)) throw new Error(`Destination file ${destinationFileName} already exists`);
 
-        if (!this.isOwner()) return;
+        if (!this.isWritable()) return;
 
-        const identity: ScoreboardIdentity | undefined = this.getKeyIdentity(sourceFileName);
-        if (!identity) throw new Error(`Source file ${sourceFileName} does not exist`);
-        const content = this.getKeyData(sourceFileName, identity);
-        this.write(destinationFileName, content);
+        const entry: string | undefined = this.getKeyEntry(sourceFileName);
+        if (!entry) throw new Error(`Source file ${sourceFileName} does not exist`);
+        const data: string = this.getKeyRawData(sourceFileName, entry);
+        this.atomically([
+            { run: () => this.writeEntry(destinationFileName, data), undo: () => this.removeEntry(destinationFileName) }
+        ]);
     }
 
     /**
-     * Moves a file within the directory.
+     * Moves a file within the directory. The source is only removed once the destination is written,
+     * and the move is rolled back if either step fails.
      * @param sourceFileName The name of the source file.
      * @param destinationFileName The name of the destination file.
-     * @throws Error if the source file does not exist or the destination file already exists.
+     * @throws Error if the source file does not exist, the destination file already exists, or the destination name is invalid.
      */
     public move(sourceFileName: string, destinationFileName: string): void {
-        this.isOwner();
+        validateFileName(destinationFileName);
+        if (!this.exists(sourceFileName)) throw new Error(`Source file ${sourceFileName} does not exist`);
+        if (this.exists(destinationFileName)) throw new Error(`Destination file ${destinationFileName} already exists`);
 
-        this.copy(sourceFileName, destinationFileName);
-        this.delete(sourceFileName);
+        if (!this.isWritable()) return;
+
+        const entry: string | undefined = this.getKeyEntry(sourceFileName);
+        if (!entry) throw new Error(`Source file ${sourceFileName} does not exist`);
+        const data: string = this.getKeyRawData(sourceFileName, entry);
+        const created: number | undefined = this.readStat(sourceFileName)?.created;
+        this.atomically([
+            { run: () => this.writeEntry(destinationFileName, data, created), undo: () => this.removeEntry(destinationFileName) },
+            { run: () => this.removeEntry(sourceFileName), undo: () => this.writeEntry(sourceFileName, data, created) }
+        ]);
     }
 
     /**
@@ -696,11 +4410,9 @@ export class Directory {
      * @throws Error if the file does not exist.
      */
     public fileSize(fileName: string): number {
-        if (!this.exists(fileName)) throw new Error(`File ${fileName} does not exist`);
-        const identity: ScoreboardIdentity | undefined = this.getKeyIdentity(fileName);
-        if (!identity) throw new Error(`File ${fileName} does not exist`);
-        const content = this.getKeyData(fileName, identity);
-        return JSON.stringify(content).length;
+        const entry: string | undefined = this.getKeyEntry(fileName);
+        if (!entry) throw new Error(`File ${fileName} does not exist`);
+        return this.getKeyRawData(fileName, entry).length;
     }
 
     /**
@@ -708,80 +4420,202 @@ export class Directory {
      * @returns The total size of the directory.
      */
     public size(): number {
-        return this.objective.getParticipants().reduce((length, p) => length + p.displayName.length, 0);
+        this.checkRead();
+        const files: Map<string, string[]> = this.refreshIndex();
+        const access: string[] = this.index.access ? [this.index.access] : [];
+        return [...files.values(), ...this.index.chunks.values(), [...this.index.stats.values()], access].flat().reduce((length, entry) => length + entry.length, 0);
     }
 
     /**
-     * Lists all files in the directory.
+     * Gets the metadata of a file.
+     * @param fileName The name of the file.
+     * @returns The size of the file and the ticks it was created and last modified at.
+     * @throws Error if the file does not exist.
+     */
+    public stat(fileName: string): FsStat {
+        const size: number = this.fileSize(fileName);
+        const stat = this.readStat(fileName);
+        return { type: 'file', path: fileName, size, created: stat?.created, modified: stat?.modified };
+    }
+
+    /**
+     * Lists the files in the directory.
+     * @param options Filters the file names by `prefix` and glob `pattern`.
      * @returns An array of file names in the directory.
      */
-    public list(): string[] {
-        return this.objective.getParticipants().map((p: ScoreboardIdentity) => {
-            const [fileName] = p.displayName.split(':');
-            return fileName;
-        });
+    public list(options: FsListOptions = {}): string[] {
+        this.checkRead();
+        return [...this.refreshIndex().keys()].filter(fileName => matchesListOptions(fileName, options));
+    }
+
+    /**
+     * Gets a typed handle to a file in the directory.
+     * @param fileName The name of the file, which need not exist yet.
+     * @param codec Converts the content to and from JSON (default: plain JSON).
+     * @param schema Checks the JSON data before it is decoded (optional).
+     * @returns The file handle.
+     * @throws Error if the file name is empty or contains `:`.
+     */
+    public file<T = any>(fileName: string, codec?: FsCodec<T>, schema?: FsSchema): FsFile<T> {
+        validateFileName(fileName);
+        return FsFile.create(this, fileName, `${this.dbId}/${fileName}`, codec, schema);
+    }
+
+    /**
+     * Enables or disables caching of parsed file content. Cached content is shared between reads,
+     * so returned values must not be mutated while caching is enabled.
+     * @param enabled Whether to cache parsed content.
+     */
+    public setReadCache(enabled: boolean): void {
+        this.index.cacheReads = enabled;
+        if (!enabled) this.index.parsed.clear();
+    }
+
+    /**
+     * Discards the in-memory index, forcing a rescan of the objective on the next access.
+     */
+    public invalidate(): void {
+        this.index.invalidate();
     }
 
     /**
      * Creates a new `Directory` instance for a given scoreboard objective.
      * @param objective The scoreboard objective representing the directory.
+     * @param localId The identifier of the addon accessing the directory (default: the `AcmLib` addon).
+     * @param index The index shared by every instance of this directory (default: a new index).
      * @returns A new `Directory` instance.
      */
-    public static create(objective: ScoreboardObjective): Directory { return new Directory(objective); }
+    public static create(objective: AcmScoreboardObjective, localId: string = Directory.getLocalId(), index: DirectoryIndex = DirectoryIndex.create()): Directory { return new Directory(objective, localId, index); }
 
 }
 
 
 class FsDir {
-    private constructor(private readonly Sb: Scoreboard, private readonly format: (name: string) => string) { }
-    public static create(Sb: Scoreboard, format: (name: string) => string): FsDir { return new FsDir(Sb, format); }
+    private readonly indexes: Map<string, DirectoryIndex> = new Map();
+    private constructor(private readonly Sb: AcmScoreboard, private readonly format: (name: string, owner?: string) => string, private readonly localId: () => string, private readonly clock: () => number | undefined) { }
+    public static create(Sb: AcmScoreboard, format: (name: string, owner?: string) => string, localId: () => string, clock: () => number | undefined = () => undefined): FsDir { return new FsDir(Sb, format, localId, clock); }
+
+    private getIndex(objectiveId: string): DirectoryIndex {
+        let index: DirectoryIndex | undefined = this.indexes.get(objectiveId);
+        if (!index) {
+            index = DirectoryIndex.create(this.clock);
+            this.indexes.set(objectiveId, index);
+        }
+        return index;
+    }
+
+    private objectiveId(path: string, owner?: string): string {
+        const segments: string[] = splitPath(path);
+        if (segments.length === 0) throw new Error('Directory path must not be empty');
+        return this.format(segments.join('/'), owner);
+    }
+
+    private getDescendants(path: string): AcmScoreboardObjective[] {
+        const prefix: string = splitPath(path).length === 0 ? this.format('') : `${this.objectiveId(path)}/`;
+        return this.Sb.getObjectives().filter(objective => objective.id.startsWith(prefix));
+    }
+
+    /**
+     * Gets the path of a directory from its identifier. Directory paths are case-insensitive and reported in lower case.
+     * @param dbId The identifier of the directory.
+     */
+    public pathOf(dbId: string): string {
+        return dbId.slice(this.format('').length).toLowerCase();
+    }
+
+    /**
+     * Lists the names of the direct sub-directories of a path, including those that only exist as parents of deeper directories.
+     * @param path The path of the parent directory, or an empty path for the root.
+     */
+    public children(path: string = ''): string[] {
+        const parent: string = splitPath(path).join('/').toLowerCase();
+        const start: number = parent.length === 0 ? 0 : parent.length + 1;
+        return [...new Set(this.getDescendants(path).map(objective => this.pathOf(objective.id).slice(start).split('/')[0]))];
+    }
 
     /**
      * Checks if a directory with the given name exists.
-     * @param name The name of the directory.
+     * @param name The name or `/`-separated path of the directory.
      * @returns True if the directory exists, false otherwise.
      */
     public isValid(name: string): boolean {
-        return this.Sb.getObjective(this.format(name)) !== undefined;
+        return this.Sb.getObjective(this.objectiveId(name)) !== undefined;
+    }
+
+    /**
+     * Retrieves a directory by its identifier.
+     * @param dbId The identifier (scoreboard objective) of the directory.
+     * @returns The `Directory` instance if found, or undefined if it does not exist.
+     */
+    public getById(dbId: string): Directory | undefined {
+        const db: AcmScoreboardObjective | undefined = this.Sb.getObjective(dbId);
+        if (!db) return undefined;
+        else return Directory.create(db, this.localId(), this.getIndex(db.id));
     }
 
     /**
      * Retrieves a directory by its name.
-     * @param name The name of the directory.
+     * @param name The name or `/`-separated path of the directory.
      * @returns The `Directory` instance if found, or undefined if it does not exist.
      */
     public get(name: string): Directory | undefined {
-        const db: ScoreboardObjective | undefined = this.Sb.getObjective(this.format(name));
-        if (!db) return undefined;
-        else return Directory.create(db);
+        return this.getById(this.objectiveId(name));
+    }
+
+    /**
+     * Opens a directory of another addon that was shared with this addon.
+     * @param ownerId The identifier (`author_packId`) of the owning addon.
+     * @param name The name or `/`-separated path of the directory.
+     * @returns The `Directory` instance; writes are checked against the access granted by its owner.
+     * @throws Error if the directory does not exist or is not shared with this addon.
+     */
+    public open(ownerId: string, name: string): Directory {
+        const directory: Directory | undefined = this.getById(this.objectiveId(name, ownerId));
+        if (!directory) throw new Error(`Directory ${name} of addon ${ownerId} does not exist`);
+        if (!directory.canRead()) throw new Error(`Directory ${name} of addon ${ownerId} is not shared with addon: ${this.localId()}`);
+        return directory;
     }
 
     /**
      * Creates a new directory with the given name.
-     * @param name The name of the directory.
+     * @param name The name or `/`-separated path of the directory.
      * @param ignoreWarn Whether to suppress warnings if the directory already exists (default: false).
+     * @param recursive Whether to create missing parent directories (default: false).
      * @returns The newly created or existing `Directory` instance.
+     * @throws Error if the parent directory does not exist and `recursive` is false.
      */
-    public new(name: string, ignoreWarn: boolean = false): Directory {
-        const formatedName: string = this.format(name);
+    public new(name: string, ignoreWarn: boolean = false, recursive: boolean = false): Directory {
+        const formatedName: string = this.objectiveId(name);
         if (this.isValid(name)) {
             if (!ignoreWarn) console.warn(`Directory ${formatedName} already exists`);
             const db: Directory | undefined = this.get(name)
             if (db) return db;
         }
-        const db: ScoreboardObjective = this.Sb.addObjective(formatedName);
-        return Directory.create(db);
+        const parent: string = splitPath(name).slice(0, -1).join('/');
+        if (parent.length > 0 && !this.isValid(parent)) {
+            if (!recursive) throw new Error(`Parent directory ${parent} does not exist`);
+            this.new(parent, true, true);
+        }
+        const db: AcmScoreboardObjective = this.Sb.addObjective(formatedName);
+        this.indexes.delete(db.id);
+        return Directory.create(db, this.localId(), this.getIndex(db.id));
     }
 
     /**
      * Deletes a directory by its name.
-     * @param name The name of the directory to delete.
-     * @throws Error if the directory does not exist.
+     * @param name The name or `/`-separated path of the directory to delete.
+     * @param recursive Whether to also delete its sub-directories (default: false).
+     * @throws Error if the directory does not exist, or has sub-directories and `recursive` is false.
      */
-    public delete(name: string): void {
+    public delete(name: string, recursive: boolean = false): void {
         const db: Directory | undefined = this.get(name);
         if (!db) throw new Error(`Directory ${name} does not exist`);
-        this.Sb.removeObjective(this.format(name));
+        const descendants: AcmScoreboardObjective[] = this.getDescendants(name);
+        if (descendants.length > 0 && !recursive) throw new Error(`Directory ${name} has sub-directories`);
+        [...descendants.map(objective => objective.id), db.dbId].forEach(objectiveId => {
+            this.Sb.removeObjective(objectiveId);
+            this.indexes.delete(objectiveId);
+        });
     }
 }
 
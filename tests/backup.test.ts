@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AcmBackup, AcmLibrary } from '../acm_lib';
+import { FakeScoreboardObjective } from '../acm_fake_server';
+import { addPlayer, ADDON_ID, makeAddon, setup } from './helpers';
+
+const settings = [
+    { key: 'speed', label: 'Speed', min: 0, max: 10, step: 1, value: 1 },
+    { key: 'hud', label: 'Show HUD', value: false, scope: 'player' as const }
+];
+
+/**
+ * Sets up a world holding settings, a player override and a file, and exports it.
+ */
+async function exportWorld(): Promise<string> {
+    const { host, lib } = setup(makeAddon({ settings }));
+    lib.setSetting('speed', 4);
+    const alice = addPlayer(host, 'Alice');
+    lib.setPlayerSetting(alice, 'hud', true);
+    const quests = lib.Fs.Dir.new('quests');
+    await quests.write('q1', { stage: 2 });
+    quests.grant('tester_guest', 'read');
+    return lib.exportData();
+}
+
+describe('exportData', () => {
+    it('describes the addon and its data', async () => {
+        const backup: AcmBackup = JSON.parse(await exportWorld());
+
+        expect(backup).toMatchObject({ format: 'acm-backup', formatVersion: 1, addonId: 'TESTER_PACK', addonVersion: '1.0.0' });
+        expect(backup.settings.root.map(widget => [widget.key, 'value' in widget ? widget.value : undefined])).toEqual([['speed', 4]]);
+        expect(Object.values(backup.players)).toEqual([{ hud: true }]);
+        expect(backup.directories).toEqual({ quests: { files: { q1: { stage: 2 } }, grants: { TESTER_GUEST: 'read' } } });
+    });
+});
+
+describe('importData', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('restores a backup into another world', async () => {
+        const snapshot = await exportWorld();
+        const { lib } = setup(makeAddon({ settings }));
+
+        expect(lib.importData(snapshot)).toEqual({ written: 3, skipped: 0 });
+
+        expect(lib.loadSettingsData()).toEqual({ speed: 4, hud: false });
+        expect(lib.Fs.Dir.get('quests')?.read('q1')).toEqual({ stage: 2 });
+        expect(lib.Fs.Dir.get('quests')?.getGrants()).toEqual({ TESTER_GUEST: 'read' });
+        expect(JSON.parse(lib.exportData()).players).toEqual(JSON.parse(snapshot).players);
+    });
+
+    it('resolves conflicts as asked', async () => {
+        const snapshot = await exportWorld();
+        const conflicting = async () => {
+            const { lib } = setup(makeAddon({ settings }));
+            lib.setSetting('speed', 9);
+            await lib.Fs.Dir.new('quests').write('q1', 'current');
+            await lib.Fs.Dir.new('notes').write('n1', 'current');
+            return lib;
+        };
+
+        const skipped = await conflicting();
+        skipped.importData(snapshot, 'skip');
+        expect(skipped.loadSettingsData().speed).toBe(9);
+        expect(skipped.Fs.Dir.get('quests')?.read('q1')).toBe('current');
+
+        const merged = await conflicting();
+        merged.importData(snapshot, 'merge');
+        expect(merged.loadSettingsData().speed).toBe(4);
+        expect(merged.Fs.Dir.get('quests')?.read('q1')).toEqual({ stage: 2 });
+        expect(merged.Fs.exists('notes/n1')).toBe(true);
+
+        const replaced = await conflicting();
+        replaced.importData(snapshot, 'replace');
+        expect(replaced.Fs.exists('notes')).toBe(false);
+    });
+
+    it('restores saved profiles with the same conflict handling', async () => {
+        const source = setup(makeAddon({ settings })).lib;
+        source.setSetting('speed', 7);
+        source.saveProfile('fast');
+        source.setSetting('speed', 2);
+        source.saveProfile('slow');
+        const backup: AcmBackup = JSON.parse(source.exportData());
+        expect(backup.profiles).toEqual({ fast: { speed: 7, hud: false }, slow: { speed: 2, hud: false } });
+        const conflicting = () => {
+            const { lib } = setup(makeAddon({ settings }));
+            lib.setSetting('speed', 9);
+            lib.saveProfile('slow');
+            lib.saveProfile('mine');
+            return lib;
+        };
+        const profileOf = (lib: AcmLibrary, name: string) => JSON.parse(lib.exportData()).profiles[name];
+
+        const skipped = conflicting();
+        skipped.importData(JSON.stringify(backup), 'skip');
+        expect(profileOf(skipped, 'slow')).toMatchObject({ speed: 9 });
+        expect(profileOf(skipped, 'fast')).toMatchObject({ speed: 7 });
+
+        const merged = conflicting();
+        merged.importData(JSON.stringify(backup), 'merge');
+        expect(merged.listPresets().map(preset => preset.name)).toEqual(['slow', 'mine', 'fast']);
+        expect(profileOf(merged, 'slow')).toMatchObject({ speed: 2 });
+
+        const replaced = conflicting();
+        replaced.importData(JSON.stringify({ ...backup, profiles: undefined }), 'replace');
+        expect(replaced.listPresets()).toEqual([]);
+        expect(() => replaced.importData(JSON.stringify({ ...backup, profiles: { fast: 7 } }))).toThrow('Invalid backup: malformed profiles');
+    });
+
+    it('never touches the settings of an addon whose identifier extends this one', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const extra = AcmLibrary.create(host);
+        extra.initAddon(makeAddon({ settings, description: { version: '1.0.0', author: 'tester', packId: 'pack_extra' } }));
+        engine.ready();
+        host.system.tick();
+        extra.setSetting('speed', 6);
+        const empty = JSON.parse(lib.exportData());
+
+        expect(empty.settings.categories).toEqual({});
+        lib.importData(JSON.stringify(empty), 'replace');
+
+        expect(extra.loadSettingsData().speed).toBe(6);
+        expect(host.world.scoreboard.getObjective('ACM:TESTER_PACK_EXTRA')?.getParticipants()).toHaveLength(1);
+    });
+
+    it('leaves no directories behind when restoring the files fails', async () => {
+        const snapshot = await exportWorld();
+        const { lib } = setup(makeAddon({ settings }));
+        await lib.Fs.Dir.new('notes').write('n1', 'current');
+        const setScore = FakeScoreboardObjective.prototype.setScore;
+        vi.spyOn(FakeScoreboardObjective.prototype, 'setScore').mockImplementation(function (this: FakeScoreboardObjective, participant, score) {
+            if (typeof participant === 'string' && participant.startsWith('q1:')) throw Error('storage failure');
+            setScore.call(this, participant, score);
+        });
+
+        expect(() => lib.importData(snapshot, 'merge')).toThrow('storage failure');
+
+        vi.restoreAllMocks();
+        expect(lib.Fs.list('', { recursive: true, type: 'directory' })).toEqual(['notes']);
+        expect(lib.Fs.Dir.get('notes')?.read('n1')).toBe('current');
+    });
+
+    it('rejects backups of other addons, newer versions or a malformed shape', async () => {
+        const snapshot = await exportWorld();
+        const backup: AcmBackup = JSON.parse(snapshot);
+        const other = setup(makeAddon({ settings, description: { version: '1.0.0', author: 'tester', packId: 'other' } })).lib;
+        const older = setup(makeAddon({ settings }, '0.9.0')).lib;
+        const { lib } = setup(makeAddon({ settings }));
+
+        expect(() => other.importData(snapshot)).toThrow('Invalid backup: belongs to addon TESTER_PACK');
+        expect(() => older.importData(snapshot)).toThrow('Invalid backup: made by addon version 1.0.0, newer than 0.9.0');
+        expect(() => lib.importData('{')).toThrow('Invalid backup: not valid JSON');
+        expect(() => lib.importData(JSON.stringify({ ...backup, directories: { 'a:b': { files: {}, grants: {} } } }))).toThrow('Invalid backup');
+        expect(lib.Fs.list()).toEqual([]);
+    });
+
+    it('migrates settings of older backups', async () => {
+        const backup: AcmBackup = JSON.parse(await exportWorld());
+        backup.settings.root = [{ label: 'Old speed', min: 0, max: 10, step: 1, value: 6 }];
+        const { engine, lib } = setup(makeAddon({ settings }, '1.1.0'));
+        lib.registerMigration('1.0.0', '1.1.0', persisted => {
+            persisted.root.forEach(widget => Object.assign(widget, { key: 'speed', label: 'Speed' }));
+        });
+        engine.saveSettings(ADDON_ID, []);
+
+        lib.importData(JSON.stringify(backup), 'replace');
+
+        expect(lib.loadSettingsData().speed).toBe(6);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AcmLibrary, Directory, OnCustomSignalEmittedEvent } from '../acm_lib';
+import { createFakeHost, FakeAcmEngine } from '../acm_fake_server';
+import { ADDON_ID, makeAddon, setup } from './helpers';
+
+describe('initAddon', () => {
+    it('announces the addon once the engine answers the handshake', () => {
+        const addon = makeAddon();
+        const { host, engine, lib } = setup(addon, false);
+        const ready = vi.fn();
+        lib.Events.OnAddonReady.subscribe(ready);
+
+        engine.ready();
+        expect(ready).not.toHaveBeenCalled();
+        host.system.tick();
+
+        expect(ready).toHaveBeenCalledTimes(1);
+        expect(ready.mock.calls[0][0].addonData).toBe(addon);
+        host.system.tick();
+        expect(engine.readyAddons).toHaveLength(1);
+        expect(engine.readyAddons[0].description).toEqual(addon.description);
+    });
+
+    it('ignores the handshake until an addon is initialized', () => {
+        const { host, engine, lib } = setup();
+        const ready = vi.fn();
+        lib.Events.OnAddonReady.subscribe(ready);
+
+        engine.ready();
+        host.system.tick();
+
+        expect(ready).not.toHaveBeenCalled();
+        expect(engine.readyAddons).toEqual([]);
+    });
+
+    it('throws if the addon is already initialized', () => {
+        const { lib } = setup(makeAddon());
+        expect(() => lib.initAddon(makeAddon())).toThrow('Addon already initialized');
+    });
+
+    it('keeps libraries on separate hosts apart', () => {
+        const { lib } = setup(makeAddon());
+        const other = AcmLibrary.create(createFakeHost());
+        expect(lib.addonData).toBeDefined();
+        expect(other.addonData).toBeUndefined();
+    });
+});
+
+describe('loadSettingsData', () => {
+    it('returns the declared values while nothing is stored', () => {
+        const { lib } = setup(makeAddon({ settings: [{ label: 'Enabled', value: true }, { label: 'Name', placeholder: 'name', value: 'Steve' }] }));
+        expect(lib.loadSettingsData()).toEqual({ Enabled: true, Name: 'Steve' });
+    });
+
+    it('reads the values the HUD stored', () => {
+        const settings = [{ label: 'Enabled', value: true }, { label: 'Mode', options: ['easy', 'hard'], valueIndex: 0 }];
+        const { engine, lib } = setup(makeAddon({ settings }));
+
+        engine.saveSettings(ADDON_ID, [{ label: 'Enabled', value: false }, { label: 'Mode', options: ['easy', 'hard'], valueIndex: 1 }]);
+
+        expect(lib.loadSettingsData()).toEqual({ Enabled: false, Mode: 'hard' });
+    });
+
+    it('reads categories from their own objectives', () => {
+        const settings = [{ title: 'General', settings: [{ label: 'Enabled', value: true }] }];
+        const { engine, lib } = setup(makeAddon({ settings }));
+
+        engine.saveSettings(ADDON_ID, [{ label: 'Enabled', value: false }], 'General');
+
+        expect(lib.loadSettingsData()).toEqual({ General: { Enabled: false } });
+    });
+});
+
+describe('emit', () => {
+    it('delivers signals to every library on the host', () => {
+        const { host, lib } = setup(makeAddon());
+        const listener = AcmLibrary.create(host);
+        const received: OnCustomSignalEmittedEvent[] = [];
+        listener.Events.OnCustomSignalEmitted.subscribe(event => { received.push(event); });
+
+        lib.emit('ping', { count: 1 });
+        lib.emit('pong');
+        host.system.tick();
+
+        expect(received.map(event => [event.addonId, event.emitterId, event.data])).toEqual([
+            [ADDON_ID, 'ping', { count: 1 }],
+            [ADDON_ID, 'pong', undefined]
+        ]);
+    });
+});
+
+describe('Directory', () => {
+    it('reads back what it wrote', async () => {
+        const directory: Directory = setup(makeAddon()).lib.Fs.Dir.new('saves');
+
+        await directory.write('config', { size: 3, tags: ['a'] });
+
+        expect(directory.exists('config')).toBe(true);
+        expect(directory.read('config')).toEqual({ size: 3, tags: ['a'] });
+        expect(directory.list()).toEqual(['config']);
+    });
+
+    it('refuses to overwrite when asked not to', async () => {
+        const directory: Directory = setup(makeAddon()).lib.Fs.Dir.new('saves');
+
+        await directory.write('config', 1);
+
+        await expect(directory.write('config', 2, false)).rejects.toThrow('File config already exists');
+        expect(directory.read('config')).toBe(1);
+    });
+
+    it('deletes files', async () => {
+        const directory: Directory = setup(makeAddon()).lib.Fs.Dir.new('saves');
+
+        await directory.write('config', 1);
+        directory.delete('config');
+
+        expect(directory.exists('config')).toBe(false);
+        expect(() => directory.delete('config')).toThrow('File config does not exist');
+    });
+});
+
+describe('FakeAcmEngine', () => {
+    it('records the addons announced to it', () => {
+        const host = createFakeHost();
+        const engine = FakeAcmEngine.create(host);
+        host.system.sendScriptEvent('acm:addon_ready', JSON.stringify(makeAddon()));
+        host.system.tick();
+        expect(engine.readyAddons.map(addon => addon.description.packId)).toEqual(['pack']);
+    });
+});
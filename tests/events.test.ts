@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AcmLibrary, OnCustomSignalEmittedEvent, OnErrorEvent } from '../acm_lib';
+import { createFakeHost } from '../acm_fake_server';
+import { flush } from './helpers';
+
+const signal = (emitterId: string = 'test'): OnCustomSignalEmittedEvent => OnCustomSignalEmittedEvent.create('tester_pack', emitterId);
+
+describe('event subscriptions', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('keeps subscriptions to each library instance', () => {
+        const host = createFakeHost();
+        const first = AcmLibrary.create(host);
+        const second = AcmLibrary.create(host);
+        const handler = vi.fn();
+        first.Events.OnCustomSignalEmitted.subscribe(handler);
+
+        second.Events.OnCustomSignalEmitted.emit(signal());
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(second.Events.OnCustomSignalEmitted.hasSubscribers()).toBe(false);
+    });
+
+    it('stops delivering to disposed subscriptions', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const handler = vi.fn();
+        const subscription = events.OnCustomSignalEmitted.subscribe(handler);
+
+        subscription.dispose();
+        subscription.dispose();
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(subscription.active).toBe(false);
+        expect(handler).not.toHaveBeenCalled();
+        expect(events.OnCustomSignalEmitted.hasSubscribers()).toBe(false);
+    });
+
+    it('removes every subscription of a handler', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const handler = vi.fn();
+        events.OnCustomSignalEmitted.subscribe(handler);
+        events.OnCustomSignalEmitted.subscribe({ emitterId: 'test' }, handler);
+
+        events.OnCustomSignalEmitted.unsubscribe(handler);
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('runs handlers by priority, then in subscription order', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const order: string[] = [];
+        events.OnCustomSignalEmitted.subscribe(() => { order.push('default'); });
+        events.OnCustomSignalEmitted.subscribe(() => { order.push('high'); }, { priority: 10 });
+        events.OnCustomSignalEmitted.subscribe(() => { order.push('low'); }, { priority: -1 });
+        events.OnCustomSignalEmitted.subscribe(() => { order.push('default 2'); });
+
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(order).toEqual(['high', 'default', 'default 2', 'low']);
+    });
+
+    it('runs once handlers for the first event only', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const handler = vi.fn();
+        const subscription = events.OnCustomSignalEmitted.once(handler);
+
+        events.OnCustomSignalEmitted.emit(signal());
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(subscription.active).toBe(false);
+    });
+
+    it('disposes the subscriptions of a group together', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const group = events.group();
+        const handler = vi.fn();
+        events.OnCustomSignalEmitted.subscribe(handler, { group });
+        events.OnSettingsChanged.subscribe(handler, { group });
+        const kept = events.OnCustomSignalEmitted.subscribe(() => { });
+        expect(group.size).toBe(2);
+
+        group.dispose();
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(group.size).toBe(0);
+        expect(kept.active).toBe(true);
+    });
+
+    it('lets go of subscriptions disposed on their own', () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const group = events.group();
+        const subscriptions = Array.from({ length: 3 }, () => events.OnCustomSignalEmitted.subscribe(() => { }, { group }));
+        const once = events.OnCustomSignalEmitted.once(() => { }, { group });
+
+        subscriptions.forEach(subscription => subscription.dispose());
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect([...subscriptions, once].map(subscription => group.remove(subscription))).toEqual([false, false, false, false]);
+    });
+
+    it('drops disposed subscriptions added by hand', () => {
+        const group = AcmLibrary.create(createFakeHost()).Events.group();
+        const manual = { active: true, dispose: vi.fn(() => { manual.active = false; }) };
+        group.add(manual);
+        manual.dispose();
+
+        group.add({ active: true, dispose: () => { } });
+        group.dispose();
+
+        expect(manual.dispose).toHaveBeenCalledTimes(1);
+        expect(group.remove(manual)).toBe(false);
+    });
+
+    it('reports thrown and rejected handler errors through OnError', async () => {
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        const errors: OnErrorEvent[] = [];
+        events.OnError.subscribe(event => { errors.push(event); });
+        const after = vi.fn();
+        events.OnCustomSignalEmitted.subscribe(() => { throw Error('sync failure'); });
+        events.OnCustomSignalEmitted.subscribe(async () => { throw Error('async failure'); });
+        events.OnCustomSignalEmitted.subscribe(after);
+
+        events.OnCustomSignalEmitted.emit(signal());
+        await flush();
+
+        expect(after).toHaveBeenCalled();
+        expect(errors.map(event => [event.source, (event.error as Error).message])).toEqual([
+            ['OnCustomSignalEmittedEvent', 'sync failure'],
+            ['OnCustomSignalEmittedEvent', 'async failure']
+        ]);
+    });
+
+    it('logs handler errors to the console when nothing subscribes to OnError', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { });
+        const events = AcmLibrary.create(createFakeHost()).Events;
+        events.OnCustomSignalEmitted.subscribe(() => { throw Error('failure'); });
+
+        events.OnCustomSignalEmitted.emit(signal());
+
+        expect(error).toHaveBeenCalledWith('Error @ACM:OnCustomSignalEmittedEvent subscriber:', expect.any(Error));
+    });
+});
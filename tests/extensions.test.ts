@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Player } from '@minecraft/server';
+import { ExtensionData, OnExtensionTriggerdEvent } from '../acm_lib';
+import { FakeAcmEngine, FakeHost, FakePlayer } from '../acm_fake_server';
+import { addPlayer, ADDON_ID, flush, makeAddon, setup } from './helpers';
+
+/**
+ * Triggers an extension from the HUD and waits for its result to reach the engine.
+ */
+async function trigger(host: FakeHost, engine: FakeAcmEngine, extensionId: string, player: FakePlayer, args?: any): Promise<{ status: string, message?: string }> {
+    engine.triggerExtension(ADDON_ID, extensionId, player, args);
+    host.system.tick();
+    await flush();
+    host.system.tick();
+    const result: { status: string, message?: string } | undefined = engine.extensionResults[engine.extensionResults.length - 1];
+    if (!result) throw Error(`No result for ${extensionId}`);
+    return { status: result.status, message: result.message };
+}
+
+describe('extensions', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('passes triggers to the event and the handler, and shows the result', async () => {
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'heal' }] }));
+        const player = addPlayer(host, 'Alice');
+        const triggered: OnExtensionTriggerdEvent[] = [];
+        lib.Events.OnExtensionTriggerd.subscribe(event => { triggered.push(event); });
+        lib.handleExtension('heal', (_, args) => `Healed ${args.amount}`);
+
+        expect(await trigger(host, engine, 'heal', player, { amount: 4 })).toEqual({ status: 'ok', message: 'Healed 4' });
+        expect(triggered.map(event => [event.extensionId, event.player.id, event.args])).toEqual([['heal', player.id, { amount: 4 }]]);
+    });
+
+    it('reports handler failures as errors', async () => {
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'heal' }] }));
+        const player = addPlayer(host, 'Alice');
+        lib.handleExtension('heal', async () => { throw Error('No potions left'); });
+
+        expect(await trigger(host, engine, 'heal', player)).toEqual({ status: 'error', message: 'No potions left' });
+    });
+
+    it('denies players without one of the required tags', async () => {
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'heal', title: 'Heal', permission: { tags: ['medic', 'admin'] } }] }));
+        const handler = vi.fn(() => ({ status: 'ok' as const }));
+        lib.handleExtension('heal', handler);
+        const player = addPlayer(host, 'Alice');
+
+        expect(await trigger(host, engine, 'heal', player)).toEqual({ status: 'denied', message: 'You do not have permission to use Heal' });
+        player.addTag('admin');
+        expect(await trigger(host, engine, 'heal', player)).toEqual({ status: 'ok', message: undefined });
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks the isOperator option whether a player is an operator', async () => {
+        const isOperator = (player: Player) => player.hasTag('op');
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'reset', permission: { operator: true } }] }), true, { isOperator });
+        lib.handleExtension('reset', () => 'Reset');
+        const player = addPlayer(host, 'Alice');
+
+        expect((await trigger(host, engine, 'reset', player)).status).toBe('denied');
+        player.addTag('op');
+        expect(await trigger(host, engine, 'reset', player)).toEqual({ status: 'ok', message: 'Reset' });
+    });
+
+    it('denies operator extensions to everyone without the isOperator option', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'reset', permission: { operator: true } }] }));
+        const handler = vi.fn();
+        lib.handleExtension('reset', handler);
+
+        expect(warn).toHaveBeenCalledWith('[ACM] tester_pack extension reset requires an operator, but no isOperator option was given; it is denied to everyone');
+        expect((await trigger(host, engine, 'reset', addPlayer(host, 'Alice'))).status).toBe('denied');
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('refuses to register operator extensions without the isOperator option', () => {
+        const { lib } = setup(makeAddon());
+        expect(() => lib.registerExtension({ id: 'reset', permission: { operator: true } })).toThrow('Extension reset requires an operator, but no isOperator option was given');
+
+        const { lib: checked } = setup(makeAddon(), true, { isOperator: () => false });
+        expect(() => checked.registerExtension({ id: 'reset', permission: { operator: true } })).not.toThrow();
+    });
+
+    it('announces registered extensions together, in display order', () => {
+        const { host, engine, lib } = setup(makeAddon({ extensions: [{ id: 'heal', order: 2 }] }));
+        host.system.tick();
+        const before: number = engine.readyAddons.length;
+
+        lib.registerExtension({ id: 'map', order: 1 });
+        lib.registerExtension({ id: 'shop', order: 3 });
+        host.system.tick(2);
+
+        expect(engine.readyAddons).toHaveLength(before + 1);
+        expect(engine.readyAddons[engine.readyAddons.length - 1].extensions?.map((extension: ExtensionData) => extension.id)).toEqual(['map', 'heal', 'shop']);
+        expect(() => lib.registerExtension({ id: 'map' })).toThrow('Extension map already registered');
+    });
+
+    it('leaves the extensions of the given addon data alone', () => {
+        const declared: ExtensionData[] = [{ id: 'heal' }];
+        const addon = makeAddon({ extensions: declared });
+        const { host, engine, lib } = setup(addon);
+
+        lib.registerExtension({ id: 'map' });
+        lib.unregisterExtension('heal');
+        host.system.tick(2);
+
+        expect(addon.extensions).toBe(declared);
+        expect(declared.map(extension => extension.id)).toEqual(['heal']);
+        expect(engine.readyAddons[engine.readyAddons.length - 1].extensions?.map((extension: ExtensionData) => extension.id)).toEqual(['map']);
+        expect(() => lib.handleExtension('heal', () => { })).toThrow('Extension heal does not exist');
+    });
+
+    it('removes unregistered extensions and ignores their triggers', async () => {
+        const { host, engine, lib } = setup(makeAddon());
+        const handler = vi.fn();
+        lib.registerExtension({ id: 'map' }, handler);
+
+        expect(lib.unregisterExtension('map')).toBe(true);
+        expect(lib.unregisterExtension('map')).toBe(false);
+        engine.triggerExtension(ADDON_ID, 'map', addPlayer(host, 'Alice'));
+        host.system.tick(2);
+        await flush();
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(engine.extensionResults).toEqual([]);
+    });
+});
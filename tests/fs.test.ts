@@ -0,0 +1,446 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AcmLibrary, Directory, FsCodecs, FsFileError } from '../acm_lib';
+import { FakeHost, FakeScoreboardObjective } from '../acm_fake_server';
+import { makeAddon, setup } from './helpers';
+
+/**
+ * Creates a directory of the test addon, with the objective backing it.
+ */
+function makeDirectory(name: string = 'saves'): { host: FakeHost, directory: Directory, objective: FakeScoreboardObjective } {
+    const { host, lib } = setup(makeAddon());
+    const directory: Directory = lib.Fs.Dir.new(name);
+    return { host, directory, objective: host.world.scoreboard.getObjective(directory.dbId)! };
+}
+
+describe('chunked files', () => {
+    const maxEntryLength: number = Directory.maxEntryLength;
+    afterEach(() => { Directory.maxEntryLength = maxEntryLength; });
+    const content = { text: 'x'.repeat(500), list: Array.from({ length: 50 }, (_, index) => index) };
+
+    it('splits large files across entries and reassembles them', async () => {
+        Directory.maxEntryLength = 100;
+        const { directory, objective } = makeDirectory();
+
+        await directory.write('big', content);
+
+        expect(objective.getParticipants().length).toBeGreaterThan(5);
+        expect(objective.getParticipants().every(participant => participant.displayName.length <= 100)).toBe(true);
+        expect(directory.read('big')).toEqual(content);
+        expect(directory.fileSize('big')).toBe(JSON.stringify(content).length);
+        expect(directory.list()).toEqual(['big']);
+    });
+
+    it('removes every chunk on delete and overwrite', async () => {
+        Directory.maxEntryLength = 100;
+        const { directory, objective } = makeDirectory();
+
+        await directory.write('big', content);
+        await directory.write('big', 'small');
+        expect(objective.getParticipants().filter(participant => participant.displayName.startsWith(':big:'))).toEqual([]);
+        expect(directory.read('big')).toBe('small');
+
+        await directory.write('big', content);
+        directory.delete('big');
+        expect(objective.getParticipants().filter(participant => participant.displayName.includes('big'))).toEqual([]);
+    });
+
+    it('keeps chunked files whole through rename and move', async () => {
+        Directory.maxEntryLength = 100;
+        const { directory } = makeDirectory();
+
+        await directory.write('big', content);
+        directory.rename('big', 'renamed');
+        directory.move('renamed', 'moved');
+
+        expect(directory.list()).toEqual(['moved']);
+        expect(directory.read('moved')).toEqual(content);
+    });
+
+    it('reads files stored as a single entry', () => {
+        const { directory, objective } = makeDirectory();
+        objective.setScore('legacy:{"level":3}', 0);
+        directory.invalidate();
+        expect(directory.read('legacy')).toEqual({ level: 3 });
+    });
+});
+
+describe('safe Directory writes', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('replaces the previous entry on overwrite', async () => {
+        const { directory, objective } = makeDirectory();
+
+        await directory.write('config', 1);
+        await directory.write('config', 2);
+
+        expect(directory.read('config')).toBe(2);
+        expect(directory.list()).toEqual(['config']);
+        expect(objective.getParticipants().filter(participant => participant.displayName.startsWith('config:'))).toHaveLength(1);
+    });
+
+    it('rejects file names containing a colon', async () => {
+        const { directory } = makeDirectory();
+        await expect(directory.write('a:b', 1)).rejects.toThrow("File name a:b must not contain ':'");
+        await directory.write('config', 1);
+        expect(() => directory.rename('config', 'a:b')).toThrow("must not contain ':'");
+        expect(directory.read('config')).toBe(1);
+    });
+
+    it('rejects content without a JSON form', async () => {
+        const { directory, objective } = makeDirectory();
+
+        await expect(directory.write('config', undefined)).rejects.toThrow('Content of file config cannot be serialized to JSON');
+        await expect(directory.write('config', () => 1)).rejects.toThrow('Content of file config cannot be serialized to JSON');
+
+        expect(directory.exists('config')).toBe(false);
+        expect(objective.getParticipants()).toEqual([]);
+    });
+
+    it('renames synchronously, leaving one copy', async () => {
+        const { directory } = makeDirectory();
+        await directory.write('old', { value: 1 });
+
+        directory.rename('old', 'new');
+
+        expect(directory.list()).toEqual(['new']);
+        expect(directory.read('new')).toEqual({ value: 1 });
+    });
+
+    it('rolls a move back when removing the source fails', async () => {
+        const { directory, objective } = makeDirectory();
+        await directory.write('source', { value: 1 });
+        const remove = objective.removeParticipant.bind(objective);
+        vi.spyOn(objective, 'removeParticipant').mockImplementation(participant => {
+            if (typeof participant === 'string' && participant.startsWith('source:')) throw Error('storage failure');
+            return remove(participant);
+        });
+
+        expect(() => directory.move('source', 'destination')).toThrow('storage failure');
+
+        vi.restoreAllMocks();
+        directory.invalidate();
+        expect(directory.list()).toEqual(['source']);
+        expect(directory.read('source')).toEqual({ value: 1 });
+    });
+
+    it('leaves no partial copy when writing the destination fails', async () => {
+        const { directory, objective } = makeDirectory();
+        await directory.write('source', { value: 1 });
+        const setScore = objective.setScore.bind(objective);
+        vi.spyOn(objective, 'setScore').mockImplementation((participant, score) => {
+            if (typeof participant === 'string' && participant.startsWith('copy:')) throw Error('storage failure');
+            setScore(participant, score);
+        });
+
+        expect(() => directory.copy('source', 'copy')).toThrow('storage failure');
+
+        vi.restoreAllMocks();
+        directory.invalidate();
+        expect(directory.list()).toEqual(['source']);
+    });
+});
+
+describe('Fs transactions', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('commits staged operations across directories together', async () => {
+        const { host, lib } = setup(makeAddon());
+        const quests: Directory = lib.Fs.Dir.new('quests');
+        const players: Directory = lib.Fs.Dir.new('players');
+        await quests.write('old', 1);
+
+        lib.Fs.transaction(tx => {
+            tx.write(quests, 'q1', { stage: 2 }).delete('quests', 'old');
+            tx.write('players', 'alice', { quest: 'q1' });
+        });
+
+        expect(quests.list()).toEqual(['q1']);
+        expect(players.read('alice')).toEqual({ quest: 'q1' });
+        expect(Directory.create(host.world.scoreboard.getObjective('ACM:META.TESTER_PACK')!, 'TESTER_PACK').exists('fsJournal')).toBe(false);
+    });
+
+    it('validates every operation before writing anything', async () => {
+        const { lib } = setup(makeAddon());
+        const quests: Directory = lib.Fs.Dir.new('quests');
+
+        expect(() => lib.Fs.transaction(tx => tx.write(quests, 'q1', 1).delete(quests, 'missing'))).toThrow('File missing does not exist');
+        expect(() => lib.Fs.transaction(tx => tx.write('unknown', 'q1', 1))).toThrow('Directory unknown does not exist');
+        expect(() => lib.Fs.transaction(tx => tx.write(quests, 'q1', 1).write(quests, 'q2', undefined))).toThrow('Content of file q2 cannot be serialized to JSON');
+        expect(quests.list()).toEqual([]);
+    });
+
+    it('rolls back every touched file when the commit fails', async () => {
+        const { host, lib } = setup(makeAddon());
+        const quests: Directory = lib.Fs.Dir.new('quests');
+        await quests.write('q1', 'before');
+        const objective = host.world.scoreboard.getObjective(quests.dbId)!;
+        const setScore = objective.setScore.bind(objective);
+        vi.spyOn(objective, 'setScore').mockImplementation((participant, score) => {
+            if (typeof participant === 'string' && participant.startsWith('q2:')) throw Error('storage failure');
+            setScore(participant, score);
+        });
+
+        expect(() => lib.Fs.transaction(tx => tx.write(quests, 'q1', 'after').write(quests, 'q2', 'new'))).toThrow('storage failure');
+
+        vi.restoreAllMocks();
+        quests.invalidate();
+        expect(quests.list()).toEqual(['q1']);
+        expect(quests.read('q1')).toBe('before');
+    });
+
+    it('rolls back a commit interrupted by a crash on the next world load', async () => {
+        const { host, engine, lib } = setup(makeAddon(), false);
+        const quests: Directory = lib.Fs.Dir.new('quests');
+        await quests.write('q1', 'after');
+        await quests.write('q2', 'new');
+        const meta = Directory.create(host.world.scoreboard.addObjective('ACM:META.TESTER_PACK'), 'TESTER_PACK');
+        meta.writeRaw('fsJournal', JSON.stringify({ entries: [{ dbId: quests.dbId, fileName: 'q1', before: '"before"' }, { dbId: quests.dbId, fileName: 'q2', before: null }] }));
+
+        engine.ready();
+        host.system.tick();
+
+        expect(quests.list()).toEqual(['q1']);
+        expect(quests.read('q1')).toBe('before');
+        expect(lib.Fs.recover()).toBe(false);
+    });
+});
+
+describe('Directory index and read cache', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('serves repeated lookups of known files without rescanning', async () => {
+        const { directory, objective } = makeDirectory();
+        await directory.write('a', 1);
+        await directory.write('b', 2);
+        directory.read('a');
+        const scan = vi.spyOn(objective, 'getParticipants');
+
+        for (let i = 0; i < 10; i++) {
+            directory.exists('a');
+            directory.read('b');
+            directory.fileSize('a');
+        }
+
+        expect(scan).not.toHaveBeenCalled();
+    });
+
+    it('sees a known file changed outside the library', async () => {
+        const { directory, objective } = makeDirectory();
+        await directory.write('a', 1);
+        expect(directory.read('a')).toBe(1);
+
+        objective.removeParticipant('a:1');
+        objective.setScore('a:5', 0);
+
+        expect(directory.read('a')).toBe(5);
+    });
+
+    it('sees files added outside the library by the next tick', async () => {
+        const { host, directory, objective } = makeDirectory();
+        await directory.write('a', 1);
+        directory.list();
+
+        objective.setScore('b:2', 1);
+        host.system.tick();
+
+        expect(directory.list()).toEqual(['a', 'b']);
+        expect(directory.read('b')).toBe(2);
+    });
+
+    it('parses each file once while the read cache is enabled', async () => {
+        const { directory } = makeDirectory();
+        await directory.write('a', { list: [1, 2] });
+
+        directory.setReadCache(true);
+        const first = directory.read('a');
+        expect(directory.read('a')).toBe(first);
+        await directory.write('a', { list: [3] });
+        expect(directory.read('a')).toEqual({ list: [3] });
+
+        directory.setReadCache(false);
+        expect(directory.read('a')).not.toBe(directory.read('a'));
+    });
+});
+
+describe('nested paths', () => {
+    it('opens files by path, creating missing directories on request', async () => {
+        const { lib } = setup(makeAddon());
+
+        expect(() => lib.Fs.open('quests/active/q12')).toThrow('Directory quests/active does not exist');
+        const file = lib.Fs.open('quests/active/q12', true);
+        await file.write({ stage: 1 });
+
+        expect(file.path).toBe('quests/active/q12');
+        expect(lib.Fs.exists('quests')).toBe(true);
+        expect(lib.Fs.exists('quests/active/q12')).toBe(true);
+        expect(lib.Fs.open('quests/active/q12').read()).toEqual({ stage: 1 });
+    });
+
+    it('lists entries with filters and recursion', async () => {
+        const { lib } = setup(makeAddon());
+        await lib.Fs.open('quests/active/q1', true).write(1);
+        await lib.Fs.open('quests/active/q2', true).write(2);
+        await lib.Fs.open('quests/done/d1', true).write(3);
+        await lib.Fs.open('quests/index', true).write(0);
+
+        expect(lib.Fs.list('quests')).toEqual(['index', 'active', 'done']);
+        expect(lib.Fs.list('quests', { recursive: true, type: 'file' })).toEqual(['index', 'active/q1', 'active/q2', 'done/d1']);
+        expect(lib.Fs.list('quests', { recursive: true, pattern: '*/q*' })).toEqual(['active/q1', 'active/q2']);
+        expect(lib.Fs.list('quests', { recursive: true, prefix: 'done' })).toEqual(['done', 'done/d1']);
+        expect(() => lib.Fs.list('missing')).toThrow('Directory missing does not exist');
+    });
+
+    it('reports sizes and creation and modification ticks', async () => {
+        const { host, lib } = setup(makeAddon());
+        const file = lib.Fs.open('quests/q1', true);
+        await file.write('first');
+        const created = host.system.currentTick;
+        host.system.tick(5);
+        await file.write('second');
+
+        expect(lib.Fs.stat('quests/q1')).toEqual({ type: 'file', path: 'quests/q1', size: JSON.stringify('second').length, created, modified: created + 5 });
+        expect(lib.Fs.stat('quests')).toMatchObject({ type: 'directory', path: 'quests', created, modified: created + 5 });
+        expect(() => lib.Fs.stat('quests/missing')).toThrow('File quests/missing does not exist');
+    });
+
+    it('creates and deletes directories recursively only when asked', () => {
+        const { lib } = setup(makeAddon());
+
+        expect(() => lib.Fs.Dir.new('a/b')).toThrow('Parent directory a does not exist');
+        lib.Fs.Dir.new('a/b/c', false, true);
+        expect(lib.Fs.Dir.children('a')).toEqual(['b']);
+
+        expect(() => lib.Fs.Dir.delete('a')).toThrow('Directory a has sub-directories');
+        lib.Fs.Dir.delete('a', true);
+        expect(lib.Fs.exists('a/b')).toBe(false);
+        expect(lib.Fs.list()).toEqual([]);
+    });
+});
+
+describe('shared directories', () => {
+    /**
+     * Sets up the test addon with a `shared` directory, and a second addon on the same world.
+     */
+    function share(): { owner: Directory, guest: AcmLibrary } {
+        const { host, lib } = setup(makeAddon());
+        const guest: AcmLibrary = AcmLibrary.create(host);
+        guest.initAddon(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'guest' } }));
+        return { owner: lib.Fs.Dir.new('shared'), guest };
+    }
+
+    it('refuses directories that were not shared', () => {
+        const { guest } = share();
+        expect(() => guest.Fs.Dir.open('tester_pack', 'shared')).toThrow('Directory shared of addon tester_pack is not shared with addon: TESTER_GUEST');
+        expect(() => guest.Fs.Dir.open('tester_pack', 'missing')).toThrow('Directory missing of addon tester_pack does not exist');
+    });
+
+    it('lets addons granted read access read but not write', async () => {
+        const { owner, guest } = share();
+        await owner.write('data', { value: 1 });
+        owner.grant('tester_guest', 'read');
+
+        const directory = guest.Fs.Dir.open('tester_pack', 'shared');
+
+        expect(directory.read('data')).toEqual({ value: 1 });
+        expect(directory.canWrite()).toBe(false);
+        await expect(directory.write('data', 2)).rejects.toThrow('is shared read-only with addon: TESTER_GUEST');
+    });
+
+    it('lets addons granted write access write', async () => {
+        const { owner, guest } = share();
+        owner.grant('tester_guest', 'write');
+
+        await guest.Fs.Dir.open('tester_pack', 'shared').write('data', 2);
+
+        expect(owner.read('data')).toBe(2);
+        expect(owner.getGrants()).toEqual({ TESTER_GUEST: 'write' });
+    });
+
+    it('only lets the owner share and revoke', () => {
+        const { owner, guest } = share();
+        owner.grant('tester_guest', 'write');
+        const directory = guest.Fs.Dir.open('tester_pack', 'shared');
+
+        expect(() => directory.grant('someone_else', 'read')).toThrow('Only the owner of directory');
+        owner.revoke('tester_guest');
+        expect(directory.canRead()).toBe(false);
+        expect(() => directory.list()).toThrow('is not shared with addon: TESTER_GUEST');
+    });
+});
+
+describe('typed files', () => {
+    it('round-trips Map, Set, Date and bigint values with the structured codec', async () => {
+        const { directory } = makeDirectory();
+        const value = { seen: new Set(['a']), scores: new Map([['alice', 3n]]), at: new Date(0), nested: [{ $acm: 'literal' }] };
+        const file = directory.file('state', FsCodecs.structured<typeof value>());
+
+        await file.write(value);
+
+        expect(file.read()).toEqual(value);
+    });
+
+    it('converts typed fields with composed codecs', async () => {
+        const { directory } = makeDirectory();
+        const codec = FsCodecs.object({ spawn: FsCodecs.vector3, visited: FsCodecs.set(FsCodecs.date) });
+        const file = directory.file('player', codec);
+
+        await file.write({ spawn: { x: 1, y: 2, z: 3 }, visited: new Set([new Date(5)]) });
+
+        expect(directory.read('player')).toEqual({ spawn: { x: 1, y: 2, z: 3 }, visited: [new Date(5).toISOString()] });
+        expect(file.read().visited).toEqual(new Set([new Date(5)]));
+    });
+
+    it('surfaces data failing its schema or codec as an FsFileError', async () => {
+        const { directory } = makeDirectory();
+        await directory.write('player', { spawn: 'nowhere' });
+
+        const schemaFailure = () => directory.file('player', undefined, data => typeof data.level === 'number' || 'level must be a number').read();
+        expect(schemaFailure).toThrow(FsFileError);
+        expect(schemaFailure).toThrow('failed schema: level must be a number');
+        try {
+            directory.file('player', FsCodecs.object({ spawn: FsCodecs.vector3 })).read();
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(FsFileError);
+            expect((error as FsFileError).reason).toBe('decode');
+        }
+    });
+
+    it('throws a plain error for missing files', () => {
+        const { directory } = makeDirectory();
+        expect(() => directory.file('missing').read()).toThrow('does not exist');
+    });
+
+    it('surfaces invalid JSON as a parse failure', () => {
+        const { directory, objective } = makeDirectory();
+        objective.setScore('broken:{"level":', 0);
+        directory.invalidate();
+
+        expect(() => directory.file('broken').read()).toThrow(FsFileError);
+        expect(() => directory.file('broken').read()).toThrow('failed parse');
+    });
+
+    it('lets storage and access errors through unchanged', async () => {
+        const maxEntryLength: number = Directory.maxEntryLength;
+        Directory.maxEntryLength = 100;
+        const { host, lib } = setup(makeAddon());
+        const owner: Directory = lib.Fs.Dir.new('shared');
+        await owner.write('big', { text: 'x'.repeat(500) });
+        await owner.write('small', 1);
+        Directory.maxEntryLength = maxEntryLength;
+        const guest: AcmLibrary = AcmLibrary.create(host);
+        guest.initAddon(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'guest' } }));
+        owner.grant('tester_guest', 'read');
+        const file = guest.Fs.Dir.open('tester_pack', 'shared').file('small');
+        owner.revoke('tester_guest');
+
+        expect(() => file.read()).toThrow('is not shared with addon: TESTER_GUEST');
+        expect(() => file.read()).not.toThrow(FsFileError);
+
+        const objective = host.world.scoreboard.getObjective(owner.dbId)!;
+        objective.removeParticipant(objective.getParticipants().find(participant => participant.displayName.startsWith(':big:'))!);
+        owner.invalidate();
+        expect(() => owner.file('big').read()).toThrow('File big is corrupted: missing chunks');
+        expect(() => owner.file('big').read()).not.toThrow(FsFileError);
+    });
+});
@@ -0,0 +1,50 @@
+import { Player } from '@minecraft/server';
+import { AcmInitOptions, AcmLibrary, AddonData } from '../acm_lib';
+import { createFakeHost, FakeAcmEngine, FakeHost, FakePlayer } from '../acm_fake_server';
+
+/** The identifier the ACM engine uses for the addon made by `makeAddon`. */
+export const ADDON_ID = 'tester_pack';
+
+/**
+ * Creates addon data for tests, with the given fields merged over a minimal declaration.
+ */
+export function makeAddon(overrides: Partial<AddonData> = {}, version: string = '1.0.0'): AddonData {
+    return {
+        formatVersion: '1.0.0',
+        description: { version, author: 'tester', packId: 'pack' },
+        ...overrides
+    };
+}
+
+/**
+ * Creates a library on a fresh fake host, with the fake engine listening on the same host.
+ * @param addonData The addon to initialize, or nothing to leave the library uninitialized.
+ * @param ready Whether to complete the handshake before returning (default: true).
+ */
+export function setup(addonData?: AddonData, ready: boolean = true, options?: AcmInitOptions): { host: FakeHost, engine: FakeAcmEngine, lib: AcmLibrary } {
+    const host: FakeHost = createFakeHost();
+    const engine: FakeAcmEngine = FakeAcmEngine.create(host);
+    const lib: AcmLibrary = AcmLibrary.create(host);
+    if (addonData) {
+        lib.initAddon(addonData, options);
+        if (ready) {
+            engine.ready();
+            host.system.tick();
+        }
+    }
+    return { host, engine, lib };
+}
+
+/**
+ * Adds a player to the fake world, typed so it can be passed to the library as well as to the fake engine.
+ */
+export function addPlayer(host: FakeHost, name: string): FakePlayer & Player {
+    return host.world.addPlayer(name) as FakePlayer & Player;
+}
+
+/**
+ * Lets pending promise callbacks run.
+ */
+export function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OnDependencyIssueEvent, OnEngineMissingEvent } from '../acm_lib';
+import { FakeHost } from '../acm_fake_server';
+import { addPlayer, makeAddon, setup } from './helpers';
+
+/**
+ * Announces another addon to ACM, as its own library would after the handshake.
+ */
+function announce(host: FakeHost, packId: string, version: string): void {
+    host.system.sendScriptEvent('acm:addon_ready', JSON.stringify({ formatVersion: '1.0.0', description: { version, author: 'other', packId } }));
+}
+
+describe('engine handshake', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('moves from uninitialized through waiting to ready', () => {
+        const { host, engine, lib } = setup();
+        expect(lib.state).toBe('uninitialized');
+
+        lib.initAddon(makeAddon());
+        expect(lib.state).toBe('waiting');
+        engine.ready();
+        host.system.tick();
+
+        expect(lib.state).toBe('ready');
+    });
+
+    it('probes the engine until it answers', () => {
+        const { host, engine, lib } = setup(makeAddon(), false);
+        host.system.tick(41);
+        expect(engine.probes).toEqual(['tester_pack', 'tester_pack']);
+
+        engine.ready();
+        host.system.tick();
+        host.system.tick(40);
+
+        expect(lib.state).toBe('ready');
+        expect(engine.probes).toHaveLength(2);
+    });
+
+    it('reaches an engine that started first through a probe', () => {
+        const { host, engine, lib } = setup();
+        engine.ready();
+        host.system.tick();
+
+        lib.initAddon(makeAddon());
+        host.system.tick(22);
+
+        expect(engine.probes).toEqual(['tester_pack']);
+        expect(lib.state).toBe('ready');
+    });
+
+    it('reports a missing engine after the timeout, and still accepts a later handshake', () => {
+        const { host, engine, lib } = setup(makeAddon(), false, { engineTimeout: 60 });
+        const missing: OnEngineMissingEvent[] = [];
+        const ready = vi.fn();
+        lib.Events.OnEngineMissing.subscribe(event => { missing.push(event); });
+        lib.Events.OnAddonReady.subscribe(ready);
+
+        host.system.tick(60);
+
+        expect(lib.state).toBe('engine-missing');
+        expect(missing.map(event => event.waitedTicks)).toEqual([60]);
+        host.system.tick(100);
+        expect(missing).toHaveLength(1);
+
+        engine.ready();
+        host.system.tick();
+        expect(lib.state).toBe('ready');
+        expect(ready).toHaveBeenCalledTimes(1);
+    });
+
+    it('probes again on request after the engine went missing', () => {
+        const { host, engine, lib } = setup(makeAddon(), false, { engineTimeout: 40 });
+        host.system.tick(40);
+        engine.probes.length = 0;
+        expect(lib.state).toBe('engine-missing');
+
+        lib.probeEngine();
+        expect(lib.state).toBe('waiting');
+        host.system.tick(41);
+
+        expect(engine.probes).toEqual(['tester_pack']);
+        expect(lib.state).toBe('engine-missing');
+    });
+
+    it('queues calls made before the handshake and runs them in order once ready', () => {
+        const { host, engine, lib } = setup(makeAddon(), false);
+        const player = addPlayer(host, 'Alice');
+
+        lib.emit('first');
+        lib.showAddonForm(player);
+        lib.emit('second');
+        host.system.tick(5);
+        expect(host.system.sentEvents.filter(event => event.id !== 'acm:engine_probe')).toEqual([]);
+
+        engine.ready();
+        host.system.tick();
+
+        expect(host.system.sentEvents.map(event => event.id).filter(id => id !== 'acm:engine_ready' && id !== 'acm:addon_ready'))
+            .toEqual(['ACM:SIGNAL.TESTER_PACK.FIRST', 'acm:hud_addon', 'ACM:SIGNAL.TESTER_PACK.SECOND']);
+    });
+
+    it('drops the oldest queued calls past the queue limit', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, engine, lib } = setup(makeAddon(), false);
+
+        for (let i = 0; i < 105; i++) lib.emit(`e${i}`);
+        engine.ready();
+        host.system.tick();
+
+        const signals = host.system.sentEvents.filter(event => event.id.startsWith('ACM:SIGNAL.'));
+        expect(signals).toHaveLength(100);
+        expect(signals[0].id).toBe('ACM:SIGNAL.TESTER_PACK.E5');
+        expect(warn).toHaveBeenCalledTimes(5);
+    });
+
+    it('sends queued signals once the engine is reported missing, and later ones at once', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, lib } = setup(makeAddon(), false, { engineTimeout: 40 });
+        const player = addPlayer(host, 'Alice');
+
+        lib.emit('early');
+        lib.showAddonForm(player);
+        host.system.tick(40);
+        expect(lib.state).toBe('engine-missing');
+        for (let i = 0; i < 105; i++) lib.emit(`late${i}`);
+        host.system.tick();
+
+        const sent = host.system.sentEvents.map(event => event.id);
+        expect(sent.filter(id => id.startsWith('ACM:SIGNAL.'))).toHaveLength(106);
+        expect(sent).toContain('ACM:SIGNAL.TESTER_PACK.EARLY');
+        expect(sent).not.toContain('acm:hud_addon');
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('only announces the addon again on a repeated handshake', () => {
+        const { host, engine, lib } = setup(makeAddon());
+        const ready = vi.fn();
+        lib.Events.OnAddonReady.subscribe(ready);
+        host.system.tick();
+
+        engine.ready();
+        host.system.tick(2);
+
+        expect(ready).not.toHaveBeenCalled();
+        expect(engine.readyAddons).toHaveLength(2);
+    });
+});
+
+describe('dependencies', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('knows the addons announced to ACM and their versions', () => {
+        const { host, lib } = setup(makeAddon());
+        announce(host, 'Maps', '1.4.2');
+        host.system.tick();
+
+        expect(lib.isAddonLoaded('other_maps')).toBe(true);
+        expect(lib.isAddonLoaded('OTHER_MAPS', '^1.2.0')).toBe(true);
+        expect(lib.isAddonLoaded('other_maps', '^2.0.0')).toBe(false);
+        expect(lib.isAddonLoaded('other_tools')).toBe(false);
+    });
+
+    it('understands the usual range syntax', () => {
+        const { host, lib } = setup(makeAddon());
+        announce(host, 'maps', '1.4.2');
+        host.system.tick();
+        const accepts = (range: string) => lib.isAddonLoaded('other_maps', range);
+
+        expect(['1.4.2', '=1.4.2', '^1.0.0', '~1.4.0', '1.x', '1.4', '>=1.0.0 <2.0.0', '1.0.0 - 1.4.2', '^2.0.0 || ^1.4.0', '*'].filter(range => !accepts(range))).toEqual([]);
+        expect(['1.4.3', '^1.5.0', '~1.3.0', '2.x', '>1.4.2', '<1.4.2', '1.0.0 - 1.4.1', '^0.1.0 || ^2.0.0'].filter(accepts)).toEqual([]);
+        expect(() => accepts('one')).toThrow('Invalid version range: one');
+    });
+
+    it('reports missing and incompatible dependencies', () => {
+        const dependencies = [
+            'other_maps@^2.0.0',
+            'other_tools',
+            { id: 'other_extras', optional: true },
+            { id: 'other_themes', version: '~1.0.0', optional: true },
+            { id: 'other_sounds', version: '>=1.0.0' }
+        ];
+        const { host, lib } = setup(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'pack', dependencies } }));
+        announce(host, 'maps', '1.4.2');
+        announce(host, 'themes', '1.1.0');
+        announce(host, 'sounds', '1.0.0');
+        host.system.tick();
+
+        expect(lib.checkDependencies()).toEqual([
+            { id: 'other_maps', range: '^2.0.0', reason: 'incompatible', version: '1.4.2', optional: false },
+            { id: 'other_tools', range: '*', reason: 'missing', optional: false },
+            { id: 'other_themes', range: '~1.0.0', reason: 'incompatible', version: '1.1.0', optional: true }
+        ]);
+    });
+
+    it('warns about malformed ranges at initialization and accepts no version for them', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, lib } = setup(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'pack', dependencies: ['other_maps@latest'] } }));
+        announce(host, 'maps', '1.4.2');
+        host.system.tick();
+
+        expect(warn).toHaveBeenCalledWith('[ACM] tester_pack dependency other_maps: Invalid version range: latest');
+        expect(lib.checkDependencies()).toEqual([{ id: 'other_maps', range: 'latest', reason: 'incompatible', version: '1.4.2', optional: false }]);
+    });
+
+    it('emits the issues shortly after the handshake and logs them', () => {
+        const { host, engine, lib } = setup(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'pack', dependencies: ['other_maps', 'other_tools'] } }), false);
+        engine.createLogStore();
+        const issues: OnDependencyIssueEvent[] = [];
+        lib.Events.OnDependencyIssue.subscribe(event => { issues.push(event); });
+
+        engine.ready();
+        host.system.tick();
+        announce(host, 'maps', '1.0.0');
+        host.system.tick(39);
+        expect(issues).toEqual([]);
+        host.system.tick();
+
+        expect(issues.map(event => event.issues.map(issue => issue.id))).toEqual([['other_tools']]);
+        expect(lib.Logger.query({ level: 'warn' }).map(entry => [entry.level, entry.message])).toEqual([['error', 'requires other_tools@*, which is not loaded']]);
+    });
+
+    it('stays quiet when every dependency is loaded', () => {
+        const { host, engine, lib } = setup(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'pack', dependencies: ['other_maps@^1.0.0'] } }), false);
+        const issues = vi.fn();
+        lib.Events.OnDependencyIssue.subscribe(issues);
+
+        announce(host, 'maps', '1.2.0');
+        engine.ready();
+        host.system.tick(41);
+
+        expect(issues).not.toHaveBeenCalled();
+    });
+});
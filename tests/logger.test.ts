@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { makeAddon, setup } from './helpers';
+
+describe('AcmLogger', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+
+    it('stores entries with their level, source, tick and context', () => {
+        const { host, engine, lib } = setup(makeAddon());
+        engine.createLogStore();
+        host.system.tick(3);
+
+        lib.Logger.warn('low on space', { free: 2 });
+        lib.log('started');
+
+        expect(lib.Logger.query()).toEqual([
+            { sequence: 1, tick: host.system.currentTick, level: 'warn', source: 'tester_pack', message: 'low on space', context: { free: 2 } },
+            { sequence: 2, tick: host.system.currentTick, level: 'info', source: 'tester_pack', message: 'started' }
+        ]);
+        expect(engine.logEntries()[0]).toMatch(/^1:\{/);
+    });
+
+    it('discards entries below the minimum level', () => {
+        const { engine, lib } = setup(makeAddon());
+        engine.createLogStore();
+
+        lib.Logger.setLevel('warn');
+        lib.Logger.debug('noise');
+        lib.Logger.info('noise');
+        lib.Logger.error('failed');
+
+        expect(lib.Logger.query().map(entry => entry.message)).toEqual(['failed']);
+        expect(() => lib.Logger.setLevel('loud' as never)).toThrow('Unknown log level loud');
+    });
+
+    it('filters queries by source, level, ticks and count', () => {
+        const { host, engine, lib } = setup(makeAddon());
+        engine.createLogStore();
+        const start: number = host.system.currentTick;
+
+        lib.Logger.debug('a');
+        host.system.tick(5);
+        lib.Logger.error('b');
+        lib.Logger.info('c');
+
+        expect(lib.Logger.query({ level: 'info' }).map(entry => entry.message)).toEqual(['b', 'c']);
+        expect(lib.Logger.query({ from: start + 1 }).map(entry => entry.message)).toEqual(['b', 'c']);
+        expect(lib.Logger.query({ to: start }).map(entry => entry.message)).toEqual(['a']);
+        expect(lib.Logger.query({ limit: 1 }).map(entry => entry.message)).toEqual(['c']);
+        expect(lib.Logger.query({ source: 'TESTER_PACK' })).toHaveLength(3);
+        expect(lib.Logger.query({ source: 'other_pack' })).toEqual([]);
+    });
+
+    it('removes the oldest entries beyond the capacity', () => {
+        const { engine, lib } = setup(makeAddon());
+        engine.createLogStore();
+        lib.Logger.setCapacity(3);
+
+        ['a', 'b', 'c', 'd', 'e'].forEach(message => lib.Logger.info(message));
+
+        expect(lib.Logger.query().map(entry => [entry.sequence, entry.message])).toEqual([[3, 'c'], [4, 'd'], [5, 'e']]);
+        expect(() => lib.Logger.setCapacity(0)).toThrow('Log capacity must be a positive integer, got 0');
+    });
+
+    it('prints to the console when the log store does not exist', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, lib } = setup(makeAddon());
+
+        lib.Logger.warn('no store', { id: 1 });
+
+        expect(warn).toHaveBeenCalledWith(`[ACM] tester_pack WARN @${host.system.currentTick}: no store`, { id: 1 });
+        expect(lib.Logger.query()).toEqual([]);
+    });
+
+    it('holds entries while waiting for the engine and stores them once it answers', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => { });
+        const { host, engine, lib } = setup(makeAddon(), false);
+
+        lib.log('early');
+        engine.createLogStore();
+        expect(lib.Logger.query()).toEqual([]);
+        engine.ready();
+        host.system.tick();
+
+        expect(lib.Logger.query().map(entry => entry.message)).toEqual(['early']);
+        expect(log).not.toHaveBeenCalled();
+    });
+
+    it('prints held entries once the engine is found missing, and prints later ones at once', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => { });
+        const { host, lib } = setup(makeAddon(), false, { engineTimeout: 20 });
+
+        lib.log('early');
+        expect(log).not.toHaveBeenCalled();
+        host.system.tick(20);
+        expect(log).toHaveBeenCalledWith('[ACM] tester_pack INFO @0: early');
+
+        lib.log('late');
+        expect(log).toHaveBeenLastCalledWith('[ACM] tester_pack INFO @20: late');
+    });
+
+    it('does not take up the queue of calls waiting for the engine', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, engine, lib } = setup(makeAddon(), false);
+
+        for (let i = 0; i < 150; i++) lib.log(`entry ${i}`);
+        lib.emit('ping');
+        engine.ready();
+        host.system.tick();
+
+        expect(warn).not.toHaveBeenCalled();
+        expect(host.system.sentEvents.map(event => event.id)).toContain('ACM:SIGNAL.TESTER_PACK.PING');
+    });
+});
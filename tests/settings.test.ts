@@ -0,0 +1,596 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { AcmLibrary, defineAddon, OnSettingsChangedEvent, PersistedSettings, SettingsCatagory, SettingsWidget } from '../acm_lib';
+import { addPlayer, ADDON_ID, makeAddon, setup } from './helpers';
+
+describe('typed settings', () => {
+    const addon = defineAddon({
+        formatVersion: '1.0.0',
+        description: { version: '1.0.0', author: 'tester', packId: 'pack' },
+        settings: [
+            {
+                title: 'General', key: 'general', settings: [
+                    { key: 'enabled', label: 'Enabled', value: true },
+                    { key: 'mode', label: 'Game mode', options: ['easy', 'hard'], valueIndex: 1 },
+                    { key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 4 },
+                    { key: 'name', label: 'Name', placeholder: 'name' }
+                ]
+            }
+        ]
+    });
+
+    it('infers the settings object from the declaration', () => {
+        const { lib } = setup(addon);
+        const settings = lib.loadSettingsData<typeof addon>();
+        expectTypeOf(settings.general.enabled).toEqualTypeOf<boolean>();
+        expectTypeOf(settings.general.mode).toEqualTypeOf<'easy' | 'hard'>();
+        expectTypeOf(settings.general.range).toEqualTypeOf<number>();
+        expectTypeOf(settings.general.name).toEqualTypeOf<string>();
+    });
+
+    it('keys values by key and fills missing values with defaults', () => {
+        const { lib } = setup(addon);
+        expect(lib.loadSettingsData<typeof addon>()).toEqual({ general: { enabled: true, mode: 'hard', range: 4, name: '' } });
+    });
+
+    it('finds stored values by key even after a label changed', () => {
+        const { engine, lib } = setup(addon);
+        engine.saveSettings(ADDON_ID, [{ key: 'enabled', label: 'Old label', value: false }], 'General');
+        expect(lib.loadSettingsData<typeof addon>().general).toEqual({ enabled: false, mode: 'hard', range: 4, name: '' });
+    });
+});
+
+describe('OnSettingsChanged', () => {
+    const settings = [{ title: 'General', key: 'general', settings: [{ key: 'enabled', label: 'Enabled', value: true }, { key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 4 }] }];
+
+    it('is emitted with the previous values and changed keys when the HUD saves', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const player = addPlayer(host, 'Alice');
+        const events: OnSettingsChangedEvent[] = [];
+        lib.Events.OnSettingsChanged.subscribe(event => { events.push(event); });
+
+        engine.saveSettings(ADDON_ID, [{ key: 'enabled', label: 'Enabled', value: false }, { key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 4 }], 'General', player);
+        host.system.tick();
+
+        expect(events).toHaveLength(1);
+        expect(events[0].settingsData).toEqual({ general: { enabled: false, range: 4 } });
+        expect(events[0].previousSettingsData).toEqual({ general: { enabled: true, range: 4 } });
+        expect(events[0].changedKeys).toEqual(['general.enabled']);
+        expect(events[0].changedCategories).toEqual(['general']);
+        expect(events[0].player).toBe(player);
+    });
+
+    it('is emitted by the poll when settings change without an event', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const events: OnSettingsChangedEvent[] = [];
+        lib.Events.OnSettingsChanged.subscribe(event => { events.push(event); });
+
+        host.world.scoreboard.addObjective('ACM:TESTER_PACK_GENERAL').setScore(JSON.stringify([{ key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 7 }]), 0);
+        host.system.tick(20);
+
+        expect(events.map(event => event.changedKeys)).toEqual([['general.range']]);
+        expect(events[0].player).toBeUndefined();
+    });
+
+    it('is not emitted when nothing changed', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const events: OnSettingsChangedEvent[] = [];
+        lib.Events.OnSettingsChanged.subscribe(event => { events.push(event); });
+
+        engine.saveSettings(ADDON_ID, [{ key: 'enabled', label: 'Enabled', value: true }], 'General');
+        host.system.tick(40);
+
+        expect(events).toEqual([]);
+    });
+});
+
+describe('settings validation', () => {
+    it('reports problems in the declaration without throwing', () => {
+        const { lib } = setup(makeAddon({
+            settings: [
+                { key: 'range', label: 'Range', min: 10, max: 0, step: 1 },
+                { key: 'mode', label: 'Mode', options: ['a', 'b'], valueIndex: 5 },
+                { key: 'code', label: 'Code', placeholder: '', pattern: '[' }
+            ]
+        }));
+        const paths = lib.getSettingsIssues().filter(issue => issue.severity === 'error').map(issue => issue.path);
+        expect(paths).toEqual(expect.arrayContaining(['range', 'mode', 'code']));
+    });
+
+    it('reports duplicate keys', () => {
+        const { lib } = setup(makeAddon({ settings: [{ key: 'a', label: 'A', value: true }, { key: 'a', label: 'B', value: false }] }));
+        expect(lib.getSettingsIssues().some(issue => issue.path === 'a' && issue.severity === 'error')).toBe(true);
+    });
+
+    it('replaces invalid stored values with defaults and reports them', () => {
+        const settings = [
+            { key: 'count', label: 'Count', placeholder: '', numeric: true, value: '3' },
+            { key: 'range', label: 'Range', min: 0, max: 10, step: 2, value: 4 },
+            { key: 'tag', label: 'Tag', placeholder: '', maxLength: 3, validate: (value: string) => value !== 'bad' || 'tag is reserved' }
+        ];
+        const { engine, lib } = setup(makeAddon({ settings }));
+
+        engine.saveSettings(ADDON_ID, [
+            { key: 'count', label: 'Count', placeholder: '', value: 'three' },
+            { key: 'range', label: 'Range', min: 0, max: 10, step: 2, value: 5 },
+            { key: 'tag', label: 'Tag', placeholder: '', value: 'bad' }
+        ]);
+
+        expect(lib.loadSettingsData()).toEqual({ count: '3', range: 4, tag: '' });
+        const issues = lib.getSettingsIssues();
+        expect(issues.map(issue => [issue.severity, issue.path])).toEqual([['warning', 'count'], ['warning', 'range'], ['warning', 'tag']]);
+        expect(issues[2].message).toContain('tag is reserved');
+    });
+
+    it('keeps valid stored values', () => {
+        const settings = [{ key: 'code', label: 'Code', placeholder: '', pattern: '^[a-z]+$', required: true, value: 'abc' }];
+        const { engine, lib } = setup(makeAddon({ settings }));
+        engine.saveSettings(ADDON_ID, [{ key: 'code', label: 'Code', placeholder: '', value: 'xyz' }]);
+        expect(lib.loadSettingsData()).toEqual({ code: 'xyz' });
+        expect(lib.getSettingsIssues()).toEqual([]);
+    });
+});
+
+describe('settings migrations', () => {
+    const settings = [{ key: 'speed', label: 'Speed', min: 0, max: 10, step: 1, value: 1 }];
+    const renameSpeed = (persisted: PersistedSettings): void => {
+        persisted.root.filter(widget => widget.label === 'Old speed').forEach(widget => Object.assign(widget, { key: 'speed', label: 'Speed' }));
+    };
+
+    it('migrates settings stored before migrations were used', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ label: 'Old speed', min: 0, max: 10, step: 1, value: 7 }]);
+        const migrate = vi.fn(renameSpeed);
+        lib.registerMigration('1.0.0', '1.1.0', migrate);
+
+        engine.ready();
+        host.system.tick();
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(lib.loadSettingsData()).toEqual({ speed: 7 });
+    });
+
+    it('waits for the handshake before migrating, so later registrations still run', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ label: 'Old speed', min: 0, max: 10, step: 1, value: 7 }]);
+
+        expect(lib.loadSettingsData()).toEqual({ speed: 1 });
+        lib.registerMigration('1.0.0', '1.1.0', renameSpeed);
+        engine.ready();
+        host.system.tick();
+
+        expect(lib.loadSettingsData()).toEqual({ speed: 7 });
+    });
+
+    it('runs each migration once', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ label: 'Old speed', min: 0, max: 10, step: 1, value: 7 }]);
+        const migrate = vi.fn(renameSpeed);
+        lib.registerMigration('1.0.0', '1.1.0', migrate);
+        engine.ready();
+        host.system.tick();
+
+        const restarted = AcmLibrary.create(host);
+        restarted.initAddon(makeAddon({ settings }, '1.1.0'));
+        restarted.registerMigration('1.0.0', '1.1.0', migrate);
+        engine.ready();
+        host.system.tick();
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(restarted.loadSettingsData()).toEqual({ speed: 7 });
+    });
+
+    it('runs the migrations between the stored and the current version in order', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.0.0'));
+        engine.saveSettings(ADDON_ID, [{ key: 'speed', label: 'Speed', min: 0, max: 10, step: 1, value: 2 }]);
+        lib.loadSettingsData();
+
+        const upgraded = AcmLibrary.create(host);
+        upgraded.initAddon(makeAddon({ settings }, '1.2.0'));
+        const order: string[] = [];
+        const double = (persisted: PersistedSettings): void => { persisted.root.forEach(widget => Object.assign(widget, { value: (widget as { value: number }).value * 2 })); };
+        upgraded.registerMigration('1.1.0', '1.2.0', persisted => { order.push('1.1.0'); double(persisted); });
+        upgraded.registerMigration('1.0.0', '1.1.0', persisted => { order.push('1.0.0'); double(persisted); });
+        engine.ready();
+        host.system.tick();
+
+        expect(order).toEqual(['1.0.0', '1.1.0']);
+        expect(upgraded.loadSettingsData()).toEqual({ speed: 8 });
+    });
+
+    it('does not migrate a world without stored settings', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        const migrate = vi.fn(renameSpeed);
+        lib.registerMigration('1.0.0', '1.1.0', migrate);
+        engine.ready();
+        host.system.tick();
+
+        expect(migrate).not.toHaveBeenCalled();
+        expect(lib.loadSettingsData()).toEqual({ speed: 1 });
+    });
+
+    it('leaves stored settings unchanged when a migration throws', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ key: 'speed', label: 'Speed', min: 0, max: 10, step: 1, value: 7 }]);
+        lib.registerMigration('1.0.0', '1.1.0', () => { throw Error('broken'); });
+        engine.ready();
+        host.system.tick();
+
+        expect(lib.loadSettingsData()).toEqual({ speed: 7 });
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('reads the old categories a migration names', () => {
+        const categories = [{ title: 'Movement', settings }];
+        const { host, engine, lib } = setup(makeAddon({ settings: categories }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ key: 'speed', label: 'Speed', min: 0, max: 10, step: 1, value: 6 }], 'Motion');
+        lib.registerMigration('1.0.0', '1.1.0', persisted => {
+            persisted.categories.MOVEMENT = persisted.categories.MOTION;
+            delete persisted.categories.MOTION;
+        }, ['Motion']);
+        engine.ready();
+        host.system.tick();
+
+        expect(lib.loadSettingsData()).toEqual({ Movement: { speed: 6 } });
+        expect(host.world.scoreboard.getObjective('ACM:TESTER_PACK_MOTION')?.getParticipants()).toEqual([]);
+    });
+
+    it('leaves the settings of an addon whose identifier extends this one alone', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }, '1.1.0'), false);
+        engine.saveSettings(ADDON_ID, [{ label: 'Old speed', min: 0, max: 10, step: 1, value: 7 }]);
+        engine.saveSettings('tester_pack_extra', [{ key: 'speed', label: 'Old speed', min: 0, max: 10, step: 1, value: 3 }]);
+        const seen: string[][] = [];
+        lib.registerMigration('1.0.0', '1.1.0', persisted => {
+            seen.push(Object.keys(persisted.categories));
+            persisted.categories = {};
+        });
+        engine.ready();
+        host.system.tick();
+
+        expect(seen).toEqual([[]]);
+        expect(JSON.parse(host.world.scoreboard.getObjective('ACM:TESTER_PACK_EXTRA')!.getParticipants()[0].displayName)[0].value).toBe(3);
+    });
+});
+
+describe('player-scoped settings', () => {
+    const settings = [
+        { key: 'difficulty', label: 'Difficulty', options: ['easy', 'hard'], valueIndex: 0 },
+        { key: 'hud', label: 'Show HUD', value: false, scope: 'player' as const }
+    ];
+    const hudSave = (hud: boolean) => [{ key: 'difficulty', label: 'Difficulty', options: ['easy', 'hard'], valueIndex: 0 }, { key: 'hud', label: 'Show HUD', value: hud }];
+
+    it('leaves no objectives behind when only reading', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const alice = addPlayer(host, 'Alice');
+
+        lib.loadSettingsData(alice);
+        lib.listPresets();
+        lib.exportData();
+        lib.resetPlayerSettings(alice);
+
+        expect(host.world.scoreboard.getObjectives().map(objective => objective.id).filter(id => id.startsWith('ACM:PLAYERS.') || id.startsWith('ACM:META.'))).toEqual([]);
+        lib.setPlayerSetting(alice, 'hud', true);
+        expect(host.world.scoreboard.getObjective('ACM:PLAYERS.TESTER_PACK')).toBeDefined();
+    });
+
+    it('merges a player\'s values over the world values', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const alice = addPlayer(host, 'Alice');
+        const bob = addPlayer(host, 'Bob');
+
+        lib.setPlayerSetting(alice, 'hud', true);
+
+        expect(lib.loadSettingsData(alice)).toEqual({ difficulty: 'easy', hud: true });
+        expect(lib.loadSettingsData(bob)).toEqual({ difficulty: 'easy', hud: false });
+        expect(lib.loadSettingsData()).toEqual({ difficulty: 'easy', hud: false });
+    });
+
+    it('rejects player values for world settings', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        expect(() => lib.setPlayerSetting(addPlayer(host, 'Alice'), 'difficulty', 'hard')).toThrow('Setting difficulty is not player-scoped');
+    });
+
+    it('restores the world values on reset', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const alice = addPlayer(host, 'Alice');
+        lib.setPlayerSetting(alice, 'hud', true);
+
+        lib.resetPlayerSettings(alice);
+
+        expect(lib.loadSettingsData(alice)).toEqual({ difficulty: 'easy', hud: false });
+    });
+
+    it('keeps player-scoped values the HUD saved for the player who saved them', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const alice = addPlayer(host, 'Alice');
+        const bob = addPlayer(host, 'Bob');
+
+        engine.saveSettings(ADDON_ID, hudSave(true), undefined, alice);
+        host.system.tick();
+
+        expect(lib.loadSettingsData(alice).hud).toBe(true);
+        expect(lib.loadSettingsData(bob).hud).toBe(false);
+        expect(lib.loadSettingsData().hud).toBe(false);
+    });
+
+    it('does not adopt a player\'s HUD save as a world value when the poll sees it first', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const alice = addPlayer(host, 'Alice');
+        const bob = addPlayer(host, 'Bob');
+        const changes: string[][] = [];
+        lib.Events.OnSettingsChanged.subscribe(event => { changes.push(event.changedKeys); });
+
+        engine.saveSettings(ADDON_ID, hudSave(true), undefined, alice, 25);
+        host.system.tick(20);
+        expect(changes).toEqual([]);
+        host.system.tick(10);
+
+        expect(lib.loadSettingsData(alice).hud).toBe(true);
+        expect(lib.loadSettingsData(bob).hud).toBe(false);
+        expect(changes).toEqual([['hud']]);
+    });
+});
+
+describe('changing settings from code', () => {
+    const settings = [
+        { title: 'General', key: 'general', settings: [{ key: 'enabled', label: 'Enabled', value: true }, { key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 4 }] },
+        { title: 'Chat', key: 'chat', settings: [{ key: 'prefix', label: 'Prefix', placeholder: 'prefix', value: '>' }] }
+    ];
+
+    it('stores a value, refreshes open forms and notifies subscribers', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+        const events: OnSettingsChangedEvent[] = [];
+        lib.Events.OnSettingsChanged.subscribe(event => { events.push(event); });
+
+        lib.setSetting('general.range', 7);
+        host.system.tick();
+
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 7 }, chat: { prefix: '>' } });
+        expect(engine.settingsRefreshes).toEqual([{ addonId: ADDON_ID, paths: ['general.range'] }]);
+        expect(events.map(event => [event.changedKeys, event.player])).toEqual([[['general.range'], undefined]]);
+    });
+
+    it('stores values where the HUD reads them', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+
+        lib.setSetting('chat.prefix', '#');
+        const reader = AcmLibrary.create(host);
+        reader.initAddon(makeAddon({ settings }));
+
+        expect(reader.loadSettingsData()).toEqual({ general: { enabled: true, range: 4 }, chat: { prefix: '#' } });
+    });
+
+    it('does not report the change again from the poll', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const changed = vi.fn();
+        lib.Events.OnSettingsChanged.subscribe(changed);
+
+        lib.setSetting('general.enabled', false);
+        host.system.tick(40);
+
+        expect(changed).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects undeclared settings and invalid values', () => {
+        const { lib } = setup(makeAddon({ settings }));
+
+        expect(() => lib.setSetting('general.speed', 1)).toThrow('Setting general.speed is not declared');
+        expect(() => lib.setSetting('general.range', 11)).toThrow('Invalid value for general.range');
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 4 }, chat: { prefix: '>' } });
+    });
+
+    it('updates several values at once, or none if one is invalid', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }));
+
+        expect(() => lib.updateSettings({ general: { enabled: false, range: -1 } })).toThrow('Invalid value for general.range');
+        expect(() => lib.updateSettings({ general: true })).toThrow('Settings category general must be an object');
+        expect(lib.loadSettingsData().general).toEqual({ enabled: true, range: 4 });
+
+        lib.updateSettings({ general: { range: 2 }, chat: { prefix: '!' } });
+        host.system.tick();
+
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 2 }, chat: { prefix: '!' } });
+        expect(engine.settingsRefreshes.map(refresh => refresh.paths)).toEqual([['general.range', 'chat.prefix']]);
+    });
+
+    it('refreshes forms once the engine answers when changed earlier', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings }), false);
+
+        lib.setSetting('general.enabled', false);
+        host.system.tick();
+        expect(engine.settingsRefreshes).toEqual([]);
+        engine.ready();
+        host.system.tick(2);
+
+        expect(engine.settingsRefreshes).toEqual([{ addonId: ADDON_ID, paths: ['general.enabled'] }]);
+    });
+
+    it('stops holding refreshes once the engine is reported missing', () => {
+        const { host, lib } = setup(makeAddon({ settings }), false, { engineTimeout: 40 });
+
+        lib.setSetting('general.enabled', false);
+        host.system.tick(40);
+        lib.setSetting('general.range', 2);
+        host.system.tick();
+
+        const refreshes = host.system.sentEvents.filter(event => event.id === 'acm:settings_refresh');
+        expect(refreshes.map(event => JSON.parse(event.message).paths)).toEqual([['general.enabled'], ['general.range']]);
+    });
+});
+
+describe('presets and profiles', () => {
+    const settings = [
+        { title: 'General', key: 'general', settings: [{ key: 'enabled', label: 'Enabled', value: true }, { key: 'range', label: 'Range', min: 0, max: 10, step: 1, value: 4 }] },
+        { title: 'Chat', key: 'chat', settings: [{ key: 'prefix', label: 'Prefix', placeholder: 'prefix', value: '>' }] }
+    ];
+    const presets = [
+        { name: 'Far', description: 'See further', values: { general: { range: 10 }, chat: { prefix: 'far>' } } },
+        { name: 'Off', values: { general: { enabled: false } } }
+    ];
+
+    it('applies declared presets, optionally to one category', () => {
+        const { lib } = setup(makeAddon({ settings, presets }));
+
+        lib.applyPreset('Far', 'general');
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 10 }, chat: { prefix: '>' } });
+        lib.applyPreset('Far');
+        expect(lib.loadSettingsData().chat).toEqual({ prefix: 'far>' });
+
+        expect(() => lib.applyPreset('Near')).toThrow('Preset Near does not exist');
+        expect(() => lib.applyPreset('Far', 'sound')).toThrow('Settings category sound does not exist');
+    });
+
+    it('reports invalid presets as declaration issues', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { lib } = setup(makeAddon({ settings, presets: [{ name: 'Bad', values: { general: { range: 20, speed: 1 } } }, { name: 'Bad', values: {} }] }));
+
+        expect(lib.getSettingsIssues().map(issue => issue.path)).toEqual(['presets.Bad.general.range', 'presets.Bad.general.speed', 'presets.Bad']);
+    });
+
+    it('resets settings to their declared values', () => {
+        const { lib } = setup(makeAddon({ settings, presets }));
+        lib.applyPreset('Far');
+
+        lib.resetSettings('chat');
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 10 }, chat: { prefix: '>' } });
+        lib.resetSettings();
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 4 }, chat: { prefix: '>' } });
+    });
+
+    it('saves, lists, applies and deletes profiles', () => {
+        const { lib } = setup(makeAddon({ settings, presets }));
+        lib.updateSettings({ general: { range: 1 }, chat: { prefix: '$' } });
+
+        lib.saveProfile('Mine');
+        lib.resetSettings();
+        expect(lib.listPresets()).toEqual([
+            { name: 'Far', description: 'See further', custom: false },
+            { name: 'Off', description: undefined, custom: false },
+            { name: 'Mine', custom: true }
+        ]);
+        lib.applyPreset('Mine');
+        expect(lib.loadSettingsData()).toEqual({ general: { enabled: true, range: 1 }, chat: { prefix: '$' } });
+
+        expect(lib.deleteProfile('Mine')).toBe(true);
+        expect(lib.deleteProfile('Mine')).toBe(false);
+        expect(lib.listPresets().map(preset => preset.name)).toEqual(['Far', 'Off']);
+    });
+
+    it('rejects empty profile names and the names of declared presets', () => {
+        const { lib } = setup(makeAddon({ settings, presets }));
+        expect(() => lib.saveProfile(' ')).toThrow('Profile name must not be empty');
+        expect(() => lib.saveProfile('Far')).toThrow('Profile Far would replace the declared preset Far');
+    });
+
+    it('throws when a profile cannot be stored', () => {
+        const { host, lib } = setup(makeAddon({ settings }));
+        const meta = host.world.scoreboard.addObjective('ACM:META.TESTER_PACK');
+        vi.spyOn(meta, 'setScore').mockImplementation(() => { throw Error('scoreboard full'); });
+
+        expect(() => lib.saveProfile('Mine')).toThrow();
+        vi.restoreAllMocks();
+        expect(lib.listPresets()).toEqual([]);
+    });
+
+    it('runs the preset actions of the addon page and reports the outcome', () => {
+        const { host, engine, lib } = setup(makeAddon({ settings, presets }));
+        const player = addPlayer(host, 'Alice');
+
+        engine.presetAction(ADDON_ID, player, 'apply', 'Off');
+        engine.presetAction(ADDON_ID, player, 'save', 'Quiet');
+        engine.presetAction(ADDON_ID, player, 'reset', undefined, 'general');
+        engine.presetAction(ADDON_ID, player, 'delete', 'Loud');
+        engine.presetAction(ADDON_ID, player, 'apply');
+        host.system.tick(2);
+
+        expect(engine.presetResults.map(result => [result.action, result.status, result.message])).toEqual([
+            ['apply', 'ok', undefined],
+            ['save', 'ok', undefined],
+            ['reset', 'ok', undefined],
+            ['delete', 'error', 'Profile Loud does not exist'],
+            ['apply', 'error', 'Preset action apply needs a name']
+        ]);
+        expect(engine.presetResults.every(result => result.addonId === ADDON_ID && result.playerId === player.id)).toBe(true);
+        expect(lib.loadSettingsData().general.enabled).toBe(true);
+        lib.applyPreset('Quiet');
+        expect(lib.loadSettingsData().general.enabled).toBe(false);
+    });
+});
+
+describe('widgets', () => {
+    const settings: SettingsWidget[] = [
+        { type: 'header', label: 'Combat' },
+        { key: 'damage', type: 'number', label: 'Damage', min: 1, max: 20, integer: true, value: 5 },
+        { key: 'weapons', type: 'multiselect', label: 'Weapons', options: ['sword', 'bow', 'axe'], maxSelected: 2, value: ['sword'] },
+        { type: 'divider' },
+        { key: 'tint', type: 'color', label: 'Tint', format: 'rgb', value: '#ff8000' },
+        { key: 'leader', type: 'player', label: 'Leader' },
+        { key: 'words', type: 'list', label: 'Words', pattern: '^[a-z]+$', unique: true, value: ['hello'] }
+    ];
+
+    /**
+     * Opens the addon page for a player and reads the addon data sent to the HUD.
+     */
+    function shownSettings(lib: AcmLibrary, host: ReturnType<typeof setup>['host'], player: ReturnType<typeof addPlayer>): any[] {
+        lib.showAddonForm(player);
+        const events = host.system.sentEvents.filter(event => event.id === 'acm:hud_addon');
+        return JSON.parse(events[events.length - 1].message).addonData.settings;
+    }
+
+    it('loads the declared values of every widget type, leaving out display widgets', () => {
+        const { lib } = setup(makeAddon({ settings }));
+        expect(lib.loadSettingsData()).toEqual({ damage: 5, weapons: ['sword'], tint: { r: 255, g: 128, b: 0 }, leader: '', words: ['hello'] });
+        expect(lib.getSettingsIssues()).toEqual([]);
+    });
+
+    it('checks values against the constraints of their widget', () => {
+        const { lib } = setup(makeAddon({ settings }));
+
+        expect(() => lib.setSetting('damage', 2.5)).toThrow('Invalid value for damage: must be a whole number');
+        expect(() => lib.setSetting('weapons', ['sword', 'bow', 'axe'])).toThrow('Invalid value for weapons: must select at most 2');
+        expect(() => lib.setSetting('tint', 'orange')).toThrow('Invalid value for tint: must be a color as #rrggbb');
+        expect(() => lib.setSetting('words', ['hi', 'hi'])).toThrow('Invalid value for words: must not repeat items');
+
+        lib.updateSettings({ damage: 20, weapons: ['bow', 'axe'], tint: { r: 0, g: 0, b: 255 }, leader: 'Alice', words: ['a', 'b'] });
+        expect(lib.loadSettingsData()).toEqual({ damage: 20, weapons: ['bow', 'axe'], tint: { r: 0, g: 0, b: 255 }, leader: 'Alice', words: ['a', 'b'] });
+    });
+
+    it('reports conditions on undeclared widgets', () => {
+        const { lib } = setup(makeAddon({ settings: [{ key: 'hud', label: 'HUD', value: true, visibleWhen: { setting: 'missing' } }] }));
+        expect(lib.getSettingsIssues()).toEqual([{ severity: 'error', path: 'hud', message: 'visibleWhen refers to undeclared setting missing' }]);
+    });
+
+    it('resolves visibleWhen and enabledWhen for the HUD from the current values', () => {
+        const categories: SettingsCatagory[] = [
+            { title: 'Display', key: 'display', settings: [
+                { key: 'hud', label: 'HUD', value: true },
+                { key: 'position', label: 'Position', options: ['top', 'bottom'], visibleWhen: { setting: 'hud' } },
+                { key: 'opacity', label: 'Opacity', min: 0, max: 100, step: 10, value: 100, enabledWhen: { setting: 'display.position', equals: 'bottom' } },
+                { key: 'note', type: 'label', label: 'HUD is off', visibleWhen: { setting: 'hud', not: true } }
+            ] }
+        ];
+        const { host, lib } = setup(makeAddon({ settings: categories }));
+        const player = addPlayer(host, 'Alice');
+        const flags = () => shownSettings(lib, host, player)[0].settings.map((widget: any) => [widget.key, widget.visible, widget.enabled]);
+
+        expect(flags()).toEqual([['hud', undefined, undefined], ['position', true, true], ['opacity', true, false], ['note', false, true]]);
+        lib.updateSettings({ display: { hud: false, position: 'bottom' } });
+        expect(flags()).toEqual([['hud', undefined, undefined], ['position', false, true], ['opacity', true, true], ['note', true, true]]);
+    });
+
+    it('resolves conditions on player-scoped values per player', () => {
+        const scoped: SettingsWidget[] = [
+            { key: 'hud', label: 'HUD', value: false, scope: 'player' },
+            { key: 'position', label: 'Position', options: ['top', 'bottom'], visibleWhen: { setting: 'hud', oneOf: [true] } }
+        ];
+        const { host, lib } = setup(makeAddon({ settings: scoped }));
+        const alice = addPlayer(host, 'Alice');
+        const bob = addPlayer(host, 'Bob');
+
+        lib.setPlayerSetting(alice, 'hud', true);
+
+        expect(shownSettings(lib, host, alice).map(widget => [widget.key, widget.value, widget.visible])).toEqual([['hud', true, undefined], ['position', undefined, true]]);
+        expect(shownSettings(lib, host, bob).map(widget => [widget.key, widget.value, widget.visible])).toEqual([['hud', false, undefined], ['position', undefined, false]]);
+    });
+});
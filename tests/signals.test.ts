@@ -0,0 +1,217 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AcmLibrary } from '../acm_lib';
+import { FakeHost } from '../acm_fake_server';
+import { flush, makeAddon, setup } from './helpers';
+
+/**
+ * Sets up the test addon and a `tester_bank` addon on the same world.
+ */
+function twoAddons(): { host: FakeHost, lib: AcmLibrary, bank: AcmLibrary } {
+    const { host, engine, lib } = setup(makeAddon());
+    const bank: AcmLibrary = AcmLibrary.create(host);
+    bank.initAddon(makeAddon({ description: { version: '1.0.0', author: 'tester', packId: 'bank' } }));
+    engine.ready();
+    host.system.tick();
+    return { host, lib, bank };
+}
+
+/**
+ * Advances the fake clock, letting handler promises settle between ticks.
+ */
+async function run(host: FakeHost, ticks: number): Promise<void> {
+    for (let i = 0; i < ticks; i++) {
+        host.system.tick();
+        await flush();
+    }
+}
+
+describe('RPC', () => {
+    it('calls a handler of another addon and resolves with its result', async () => {
+        const { host, lib, bank } = twoAddons();
+        const callers: string[] = [];
+        bank.handle('getBalance', async (args: { player: string }, caller) => {
+            callers.push(caller);
+            return { player: args.player, balance: 10n, history: new Map([['day', new Date(0)]]) };
+        });
+
+        const result = lib.call('tester_bank', 'getBalance', { player: 'alice' });
+        await run(host, 3);
+
+        await expect(result).resolves.toEqual({ player: 'alice', balance: 10n, history: new Map([['day', new Date(0)]]) });
+        expect(callers).toEqual(['tester_pack']);
+    });
+
+    it('rejects with the remote error when the handler throws', async () => {
+        const { host, lib, bank } = twoAddons();
+        bank.handle('withdraw', () => { throw new RangeError('insufficient funds'); });
+
+        const result = expect(lib.call('tester_bank', 'withdraw', 5)).rejects.toMatchObject({ code: 'remote', remoteName: 'RangeError', message: 'insufficient funds' });
+        await run(host, 3);
+
+        await result;
+    });
+
+    it('rejects with a remote error when the result cannot be sent', async () => {
+        const { host, lib, bank } = twoAddons();
+        bank.handle('getAccount', () => {
+            const account: { [key: string]: any } = { id: 1 };
+            account.self = account;
+            return account;
+        });
+
+        const result = expect(lib.call('tester_bank', 'getAccount', undefined, { timeout: 10 })).rejects.toMatchObject({ code: 'remote' });
+        await run(host, 3);
+
+        await result;
+    });
+
+    it('rejects calls to missing handlers and unanswered calls', async () => {
+        const { host, lib } = twoAddons();
+
+        const missing = expect(lib.call('tester_bank', 'deposit')).rejects.toMatchObject({ code: 'no_handler' });
+        const unanswered = expect(lib.call('tester_nobody', 'deposit', undefined, { timeout: 5 })).rejects.toMatchObject({ name: 'AcmRpcError', code: 'timeout' });
+        await run(host, 6);
+
+        await missing;
+        await unanswered;
+    });
+
+    it('registers each handler name once', () => {
+        const { bank } = twoAddons();
+        bank.handle('getBalance', () => 0);
+        expect(() => bank.handle('getBalance', () => 1)).toThrow('Handler getBalance is already registered');
+        bank.unhandle('getBalance');
+        expect(() => bank.handle('getBalance', () => 1)).not.toThrow();
+    });
+
+    it('reserves the RPC emitter ids', () => {
+        const { lib } = twoAddons();
+        expect(() => lib.emit('acm_rpc')).toThrow('Event id acm_rpc is reserved');
+    });
+});
+
+describe('large signals', () => {
+    afterEach(() => { vi.restoreAllMocks(); });
+    const payload = { text: 'x'.repeat(5000), list: Array.from({ length: 200 }, (_, index) => index) };
+
+    it('splits large payloads into fragments and reassembles them for subscribers', () => {
+        const { host, lib, bank } = twoAddons();
+        const received: any[] = [];
+        bank.Events.OnCustomSignalEmitted.subscribe(event => { received.push(event.data); });
+
+        lib.emit('sync', payload);
+        host.system.tick();
+
+        const sent = host.system.sentEvents.filter(event => event.id === 'ACM:SIGNAL.TESTER_PACK.SYNC');
+        expect(sent.length).toBeGreaterThan(1);
+        expect(sent.every(event => event.message.length <= 2048)).toBe(true);
+        expect(received).toEqual([payload]);
+    });
+
+    it('drops payloads whose fragments fail the integrity check', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, lib, bank } = twoAddons();
+        const received: any[] = [];
+        bank.Events.OnCustomSignalEmitted.subscribe(event => { received.push(event.data); });
+        lib.emit('sync', payload);
+        const fragments = host.system.sentEvents.filter(event => event.id === 'ACM:SIGNAL.TESTER_PACK.SYNC').map(event => event.message);
+        host.system.tick();
+        received.length = 0;
+
+        fragments.forEach((message, index) => host.system.receiveScriptEvent('ACM:SIGNAL.TESTER_PACK.SYNC', index === 0 ? message.replace('xxxx', 'xyxx') : message));
+
+        expect(received).toEqual([]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('dropped corrupted ACM:SIGNAL.TESTER_PACK.SYNC message'));
+    });
+
+    it('drops incomplete payloads after a timeout', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, lib, bank } = twoAddons();
+        const received: any[] = [];
+        bank.Events.OnCustomSignalEmitted.subscribe(event => { received.push(event.data); });
+        lib.emit('sync', payload);
+        const fragments = host.system.sentEvents.filter(event => event.id === 'ACM:SIGNAL.TESTER_PACK.SYNC').map(event => event.message);
+        host.system.tick();
+        received.length = 0;
+
+        fragments.slice(1).forEach(message => host.system.receiveScriptEvent('ACM:SIGNAL.TESTER_PACK.SYNC', message));
+        host.system.tick(100);
+
+        expect(received).toEqual([]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('dropped incomplete ACM:SIGNAL.TESTER_PACK.SYNC message'));
+    });
+
+    it('warns about malformed messages instead of throwing', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const { host, bank } = twoAddons();
+        const received: any[] = [];
+        bank.Events.OnCustomSignalEmitted.subscribe(event => { received.push(event); });
+
+        expect(() => host.system.receiveScriptEvent('ACM:SIGNAL.TESTER_PACK.SYNC', '{not json')).not.toThrow();
+        expect(() => host.system.receiveScriptEvent('ACM:SIGNAL.TESTER_PACK.SYNC', '#frag:broken')).not.toThrow();
+
+        expect(received).toEqual([]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('ignored malformed ACM:SIGNAL.TESTER_PACK.SYNC message'), expect.anything());
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('ignored malformed ACM:SIGNAL.TESTER_PACK.SYNC fragment'));
+    });
+});
+
+describe('filtered and typed signals', () => {
+    type BankSignals = { deposit: { player: string, amount: number }, closed: undefined };
+
+    it('delivers signals matching the addon and emitter filters, with wildcards', () => {
+        const { host, lib, bank } = twoAddons();
+        const received: string[] = [];
+        lib.Events.OnCustomSignalEmitted.subscribe({ addonId: 'tester_bank', emitterId: 'dep*' }, event => { received.push(`exact:${event.emitterId}`); });
+        lib.Events.OnCustomSignalEmitted.subscribe({ addonId: 'TESTER_*' }, event => { received.push(`any:${event.emitterId}`); });
+
+        bank.emit('deposit', 1);
+        bank.emit('withdraw', 1);
+        host.system.tick();
+
+        expect(received).toEqual(['exact:deposit', 'any:deposit', 'any:withdraw']);
+    });
+
+    it('types channel payloads by their catalog', () => {
+        const { host, lib, bank } = twoAddons();
+        const amounts: number[] = [];
+        lib.signals<BankSignals>('tester_bank').subscribe('deposit', event => { amounts.push(event.data.amount); });
+        // Never run: only checked by the type-check.
+        const misuse = (): void => {
+            // @ts-expect-error the payload misses the amount
+            bank.signals<BankSignals>().emit('deposit', { player: 'alice' });
+            // @ts-expect-error the emitter is not in the catalog
+            bank.signals<BankSignals>().emit('withdraw', 1);
+        };
+
+        bank.signals<BankSignals>().emit('deposit', { player: 'alice', amount: 5 });
+        host.system.tick();
+
+        expect(amounts).toEqual([5]);
+        expect(() => lib.signals<BankSignals>('tester_bank').emit('closed', undefined)).toThrow('Signals of addon tester_bank can only be emitted by that addon');
+    });
+
+    it('delivers only the next signal to once subscribers', () => {
+        const { host, lib, bank } = twoAddons();
+        const received: number[] = [];
+        lib.signals<BankSignals>('tester_bank').once('deposit', event => { received.push(event.data.amount); });
+
+        bank.emit('deposit', { player: 'alice', amount: 1 });
+        bank.emit('deposit', { player: 'alice', amount: 2 });
+        host.system.tick();
+
+        expect(received).toEqual([1]);
+    });
+
+    it('waits for the next matching signal, or rejects after the timeout', async () => {
+        const { host, lib, bank } = twoAddons();
+        const deposit = lib.signals<BankSignals>('tester_bank').waitFor('deposit');
+        const closed = expect(lib.Events.OnCustomSignalEmitted.waitFor({ emitterId: 'closed' }, 5)).rejects.toThrow('within 5 ticks');
+
+        bank.emit('deposit', { player: 'alice', amount: 3 });
+        host.system.tick(5);
+
+        await expect(deposit).resolves.toMatchObject({ addonId: 'tester_bank', emitterId: 'deposit', data: { amount: 3 } });
+        await closed;
+    });
+});
@@ -0,0 +1,12 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        // @minecraft/server only ships type declarations, so the fake stands in for it off-console.
+        alias: { '@minecraft/server': fileURLToPath(new URL('./acm_fake_server.ts', import.meta.url)) }
+    },
+    test: {
+        include: ['tests/**/*.test.ts']
+    }
+});